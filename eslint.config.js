@@ -30,6 +30,7 @@ export default [
         setInterval: 'readonly',
         clearTimeout: 'readonly',
         clearInterval: 'readonly',
+        AbortSignal: 'readonly',
       },
     },
     plugins: {
@@ -7,6 +7,7 @@ import {
   RabbitMQError,
   ConnectionError,
   ConnectionTimeoutError,
+  ConnectionBlockedError,
   ChannelError,
   ChannelAcquisitionError,
   PublishError,
@@ -16,6 +17,7 @@ import {
   ConfigurationError,
   ReconnectionError,
   ClusterError,
+  OperationAbortedError,
   isRabbitMQError,
   isConnectionError,
   isChannelError,
@@ -91,6 +93,16 @@ describe('ConnectionTimeoutError', () => {
   });
 });
 
+describe('ConnectionBlockedError', () => {
+  it('should create a blocked connection error', () => {
+    const error = new ConnectionBlockedError('Connection is blocked', { reason: 'low on memory' });
+
+    expect(error.name).toBe('ConnectionBlockedError');
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error.details).toEqual({ reason: 'low on memory', blocked: true });
+  });
+});
+
 describe('ChannelError', () => {
   it('should create a channel error', () => {
     const error = new ChannelError('Channel operation failed');
@@ -190,6 +202,18 @@ describe('ClusterError', () => {
   });
 });
 
+describe('OperationAbortedError', () => {
+  it('should create an aborted operation error', () => {
+    const error = new OperationAbortedError('publish aborted', { operation: 'publish' });
+
+    expect(error.message).toBe('publish aborted');
+    expect(error.code).toBe('ERR_ABORTED');
+    expect(error.name).toBe('OperationAbortedError');
+    expect(error.details).toEqual({ operation: 'publish' });
+    expect(error).toBeInstanceOf(RabbitMQError);
+  });
+});
+
 describe('Type Guards', () => {
   describe('isRabbitMQError', () => {
     it('should return true for RabbitMQError instances', () => {
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Test suite for the HTTP health endpoints
+ */
+
+import { request, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+
+import { ConfigurationError } from '../errors.js';
+import { createHealthHandler, renderPrometheusMetrics, startHealthServer } from '../health.js';
+import type { HealthSource } from '../health.js';
+import type { HealthReport } from '../rabbit.js';
+
+const up = { status: 'up' as const, details: {} };
+
+const createSource = (
+  overrides: Partial<HealthReport> = {},
+  healthy = true,
+): HealthSource & { healthCheck: jest.Mock<() => Promise<boolean>> } => ({
+  healthCheck: jest.fn<() => Promise<boolean>>().mockResolvedValue(healthy),
+  getHealthReport: () => ({
+    status: 'up',
+    live: true,
+    ready: true,
+    state: 'connected',
+    lastCheck: null,
+    components: {
+      connection: up,
+      defaultChannel: up,
+      channelPool: { status: 'up', details: { size: 3, open: 3, inUse: 1, maxChannels: 10 } },
+      consumers: { status: 'up', details: { count: 2, state: 'connected' } },
+      circuitBreaker: up,
+      blocked: up,
+    },
+    ...overrides,
+  }),
+  getMetrics: () => ({
+    messagesSent: 5,
+    messagesReceived: 7,
+    errors: 1,
+    reconnections: 2,
+    lastReconnectTime: new Date(1700000000000),
+    avgProcessingTime: 12.5,
+    channelAcquisitions: 4,
+    channelAcquisitionTimeouts: 1,
+    avgChannelWaitTime: 3,
+  }),
+});
+
+describe('Health Endpoints', () => {
+  let server: Server | null = null;
+
+  const get = async (
+    path: string,
+    method = 'GET',
+  ): Promise<{ status: number; body: string; headers: Record<string, unknown> }> => {
+    const { port } = server?.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, path, method }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      server = null;
+    }
+  });
+
+  describe('liveness', () => {
+    it('should answer 200 while the client is live', async () => {
+      server = await startHealthServer(createSource(), { port: 0, host: '127.0.0.1' });
+
+      const res = await get('/healthz');
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(res.body)).toEqual({ status: 'ok', state: 'connected' });
+    });
+
+    it('should answer 503 once reconnection gave up', async () => {
+      server = await startHealthServer(createSource({ live: false, state: 'failed' }), {
+        port: 0,
+        host: '127.0.0.1',
+      });
+
+      expect((await get('/healthz')).status).toBe(503);
+    });
+  });
+
+  describe('readiness', () => {
+    it('should answer 200 with the report when ready and the health check passes', async () => {
+      const source = createSource();
+      server = await startHealthServer(source, { port: 0, host: '127.0.0.1' });
+
+      const res = await get('/readyz?verbose=1');
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(res.body)).toMatchObject({ ready: true, state: 'connected' });
+      expect(source.healthCheck).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer 503 without a broker round trip when a component is down', async () => {
+      const source = createSource({ ready: false, status: 'down' });
+      server = await startHealthServer(source, { port: 0, host: '127.0.0.1' });
+
+      expect((await get('/readyz')).status).toBe(503);
+      expect(source.healthCheck).not.toHaveBeenCalled();
+    });
+
+    it('should answer 503 when the health check fails', async () => {
+      server = await startHealthServer(createSource({}, false), { port: 0, host: '127.0.0.1' });
+
+      const res = await get('/readyz');
+
+      expect(res.status).toBe(503);
+      expect(JSON.parse(res.body)).toMatchObject({ ready: false });
+    });
+  });
+
+  describe('metrics', () => {
+    it('should render metrics in the Prometheus text format', () => {
+      const text = renderPrometheusMetrics(createSource(), 'app_rabbitmq');
+
+      expect(text).toContain('# TYPE app_rabbitmq_messages_sent_total counter\n');
+      expect(text).toContain('app_rabbitmq_messages_sent_total 5\n');
+      expect(text).toContain('app_rabbitmq_last_reconnect_timestamp_seconds 1700000000\n');
+      expect(text).toContain('app_rabbitmq_consumers 2\n');
+      expect(text).toContain('app_rabbitmq_ready 1\n');
+    });
+
+    it('should serve metrics on a custom path', async () => {
+      server = await startHealthServer(createSource(), {
+        port: 0,
+        host: '127.0.0.1',
+        metricsPath: '/internal/metrics',
+      });
+
+      const res = await get('/internal/metrics');
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/plain');
+      expect(res.body).toContain('rabbitmq_client_errors_total 1\n');
+      expect((await get('/metrics')).status).toBe(404);
+    });
+  });
+
+  describe('createHealthHandler', () => {
+    it('should pass other paths to next and reject other methods', async () => {
+      const next = jest.fn();
+      const handler = createHealthHandler(createSource());
+      server = await startHealthServer(createSource(), { port: 0, host: '127.0.0.1' });
+
+      handler({ url: '/orders', method: 'GET' } as never, {} as never, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      const res = await get('/healthz', 'POST');
+      expect(res.status).toBe(405);
+      expect(res.headers.allow).toBe('GET, HEAD');
+    });
+
+    it('should reject invalid paths and ports', async () => {
+      expect(() => createHealthHandler(createSource(), { readinessPath: 'ready' })).toThrow(
+        ConfigurationError,
+      );
+      await expect(startHealthServer(createSource(), { port: 70000 })).rejects.toThrow(
+        'Invalid health server port: 70000',
+      );
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Test suite for scoped channel leases
+ */
+
+import type { Channel } from 'amqplib';
+
+import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+import { ChannelLease } from '../lease.js';
+
+const channel = {} as Channel;
+
+// Newer runtimes define the symbol in every realm, older ones leave it out of the test realm
+const nativeAsyncDispose = typeof Symbol.asyncDispose === 'symbol';
+
+describe('ChannelLease', () => {
+  it('should release the channel once', () => {
+    const onRelease = jest.fn();
+    const lease = new ChannelLease(channel, onRelease);
+
+    expect(lease.released).toBe(false);
+    lease.release();
+    lease.release();
+
+    expect(lease.released).toBe(true);
+    expect(onRelease).toHaveBeenCalledTimes(1);
+  });
+
+  (nativeAsyncDispose ? it.skip : it)(
+    'should not define a dispose method without Symbol.asyncDispose',
+    () => {
+      expect(Object.getOwnPropertySymbols(ChannelLease.prototype)).toEqual([]);
+    },
+  );
+
+  describe('with Symbol.asyncDispose', () => {
+    let Lease: typeof ChannelLease;
+
+    beforeAll(async () => {
+      (Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol.for('Symbol.asyncDispose');
+      // Evaluate the module again now that the symbol exists
+      jest.resetModules();
+      ({ ChannelLease: Lease } = await import('../lease.js'));
+    });
+
+    afterAll(() => {
+      if (!nativeAsyncDispose) {
+        delete (Symbol as { asyncDispose?: symbol }).asyncDispose;
+      }
+    });
+
+    it('should release the channel when disposed at the end of the block', async () => {
+      const onRelease = jest.fn();
+
+      await (async () => {
+        await using lease = new Lease(channel, onRelease);
+        expect(lease.channel).toBe(channel);
+        expect(onRelease).not.toHaveBeenCalled();
+      })();
+
+      expect(onRelease).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the channel when the block throws', async () => {
+      const onRelease = jest.fn();
+
+      await expect(
+        (async () => {
+          await using lease = new Lease(channel, onRelease);
+          throw new Error(`failed with ${lease.acquiredAt.toISOString()}`);
+        })(),
+      ).rejects.toThrow('failed with');
+
+      expect(onRelease).toHaveBeenCalledTimes(1);
+    });
+  });
+});
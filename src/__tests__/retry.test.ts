@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Test suite for retry policies
+ */
+
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+
+import { ConfigurationError } from '../errors.js';
+import {
+  createRetryPolicy,
+  DecorrelatedJitterBackoff,
+  ExponentialBackoff,
+  FixedBackoff,
+  FullJitterBackoff,
+} from '../retry.js';
+import type { RetryContext, RetryStrategy } from '../retry.js';
+
+const context = (overrides: Partial<RetryContext> = {}): RetryContext => ({
+  attempt: 0,
+  elapsed: 0,
+  previousDelay: null,
+  ...overrides,
+});
+
+describe('Retry Policies', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('ExponentialBackoff', () => {
+    it('should double the delay up to maxDelay without jitter', () => {
+      const policy = new ExponentialBackoff({ initialDelay: 100, maxDelay: 500, jitter: 0 });
+
+      expect([0, 1, 2, 3].map((attempt) => policy.nextDelay(context({ attempt })))).toEqual([
+        100, 200, 400, 500,
+      ]);
+    });
+
+    it('should spread delays by the jitter but never below initialDelay', () => {
+      const policy = new ExponentialBackoff({ initialDelay: 100, jitter: 0.5 });
+
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      expect(policy.nextDelay(context({ attempt: 2 }))).toBe(600);
+
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect(policy.nextDelay(context({ attempt: 0 }))).toBe(100);
+    });
+  });
+
+  describe('FullJitterBackoff', () => {
+    it('should pick a delay between zero and the exponential delay', () => {
+      const policy = new FullJitterBackoff({ initialDelay: 100, maxDelay: 1000 });
+
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect(policy.nextDelay(context({ attempt: 2 }))).toBe(200);
+      expect(policy.nextDelay(context({ attempt: 10 }))).toBe(500);
+    });
+  });
+
+  describe('DecorrelatedJitterBackoff', () => {
+    it('should pick a delay between initialDelay and three times the previous delay', () => {
+      const policy = new DecorrelatedJitterBackoff({ initialDelay: 100, maxDelay: 1000 });
+
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      expect(policy.nextDelay(context())).toBe(300);
+      expect(policy.nextDelay(context({ previousDelay: 300 }))).toBe(900);
+      expect(policy.nextDelay(context({ previousDelay: 900 }))).toBe(1000);
+    });
+  });
+
+  describe('FixedBackoff', () => {
+    it('should always wait initialDelay', () => {
+      const policy = new FixedBackoff({ initialDelay: 250 });
+
+      expect(policy.nextDelay(context())).toBe(250);
+      expect(policy.nextDelay(context({ attempt: 7, previousDelay: 250 }))).toBe(250);
+    });
+  });
+
+  describe('limits', () => {
+    it('should give up after maxAttempts retries', () => {
+      const policy = new FixedBackoff({ initialDelay: 10, maxAttempts: 2 });
+
+      expect(policy.nextDelay(context({ attempt: 1 }))).toBe(10);
+      expect(policy.nextDelay(context({ attempt: 2 }))).toBeNull();
+    });
+
+    it('should give up rather than wait past maxElapsedTime', () => {
+      const policy = new FixedBackoff({ initialDelay: 1000, maxElapsedTime: 5000 });
+
+      expect(policy.nextDelay(context({ elapsed: 4000 }))).toBe(1000);
+      expect(policy.nextDelay(context({ elapsed: 4500 }))).toBeNull();
+    });
+  });
+
+  describe('createRetryPolicy', () => {
+    it('should create the built-in policies', () => {
+      const strategies: RetryStrategy[] = [
+        'exponential',
+        'full-jitter',
+        'decorrelated-jitter',
+        'fixed',
+      ];
+
+      expect(strategies.map((strategy) => createRetryPolicy(strategy).name)).toEqual(strategies);
+      expect(createRetryPolicy('fixed', { initialDelay: 42 }).nextDelay(context())).toBe(42);
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => createRetryPolicy('linear' as RetryStrategy)).toThrow(ConfigurationError);
+    });
+  });
+});
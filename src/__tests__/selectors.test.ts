@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Test suite for cluster node selection strategies
+ */
+
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+
+import { ConfigurationError } from '../errors.js';
+import {
+  createNodeSelector,
+  LeastLatencySelector,
+  PriorityFirstSelector,
+  RandomSelector,
+  RoundRobinSelector,
+  shuffle,
+  StickySelector,
+  WeightedSelector,
+} from '../selectors.js';
+import type { NodeSelectionContext } from '../selectors.js';
+
+const nodes = ['amqp://node1', 'amqp://node2', 'amqp://node3'];
+const context: NodeSelectionContext = {
+  nodeStatus: new Map(),
+  lastConnectedNode: null,
+  nodeDescriptors: new Map(),
+};
+
+describe('Node Selectors', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('shuffle', () => {
+    it('should return a permutation without modifying the input', () => {
+      const input = [...nodes];
+      const result = shuffle(input);
+
+      expect(input).toEqual(nodes);
+      expect([...result].sort()).toEqual([...nodes].sort());
+    });
+  });
+
+  describe('RoundRobinSelector', () => {
+    it('should rotate the starting node on every call', () => {
+      const selector = new RoundRobinSelector();
+
+      expect(selector.order(nodes)).toEqual(['amqp://node1', 'amqp://node2', 'amqp://node3']);
+      expect(selector.order(nodes)).toEqual(['amqp://node2', 'amqp://node3', 'amqp://node1']);
+      expect(selector.order(nodes)).toEqual(['amqp://node3', 'amqp://node1', 'amqp://node2']);
+      expect(selector.order(nodes)).toEqual(['amqp://node1', 'amqp://node2', 'amqp://node3']);
+    });
+
+    it('should handle empty node lists', () => {
+      expect(new RoundRobinSelector().order([])).toEqual([]);
+    });
+  });
+
+  describe('RandomSelector', () => {
+    it('should return every node once', () => {
+      const result = new RandomSelector().order(nodes);
+      expect([...result].sort()).toEqual([...nodes].sort());
+    });
+  });
+
+  describe('PriorityFirstSelector', () => {
+    it('should order priority nodes first', () => {
+      const selector = new PriorityFirstSelector(['amqp://node3', 'amqp://node2']);
+
+      expect(selector.order(nodes)).toEqual(['amqp://node3', 'amqp://node2', 'amqp://node1']);
+    });
+
+    it('should skip priority nodes that are not candidates', () => {
+      const selector = new PriorityFirstSelector(['amqp://node9', 'amqp://node2']);
+
+      expect(selector.order(nodes)).toEqual(['amqp://node2', 'amqp://node1', 'amqp://node3']);
+    });
+  });
+
+  describe('WeightedSelector', () => {
+    it('should favour heavier nodes', () => {
+      const selector = new WeightedSelector({ 'amqp://node3': 8 });
+      // total weight 10: node1 [0,1), node2 [1,2), node3 [2,10)
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(selector.order(nodes)[0]).toBe('amqp://node3');
+    });
+
+    it('should never select zero-weight nodes before weighted ones', () => {
+      const selector = new WeightedSelector({ 'amqp://node1': 0, 'amqp://node2': 0 });
+
+      expect(selector.order(nodes)[0]).toBe('amqp://node3');
+    });
+
+    it('should return every node once', () => {
+      const result = new WeightedSelector({}).order(nodes);
+      expect([...result].sort()).toEqual([...nodes].sort());
+    });
+  });
+
+  describe('StickySelector', () => {
+    it('should keep the last connected node first', () => {
+      const selector = new StickySelector();
+
+      expect(selector.order(nodes, { ...context, lastConnectedNode: 'amqp://node2' })).toEqual([
+        'amqp://node2',
+        'amqp://node1',
+        'amqp://node3',
+      ]);
+    });
+
+    it('should fall back to configured order without a connected node', () => {
+      expect(new StickySelector().order(nodes, context)).toEqual(nodes);
+    });
+  });
+
+  describe('LeastLatencySelector', () => {
+    it('should order nodes by average latency, unmeasured nodes last', () => {
+      const nodeStatus = new Map([
+        ['amqp://node1', { healthy: true, lastChecked: new Date(), failureCount: 0 }],
+        [
+          'amqp://node2',
+          { healthy: true, lastChecked: new Date(), failureCount: 0, averageLatency: 80 },
+        ],
+        [
+          'amqp://node3',
+          { healthy: true, lastChecked: new Date(), failureCount: 0, averageLatency: 12 },
+        ],
+      ]);
+
+      expect(new LeastLatencySelector().order(nodes, { ...context, nodeStatus })).toEqual([
+        'amqp://node3',
+        'amqp://node2',
+        'amqp://node1',
+      ]);
+    });
+
+    it('should keep configured order without measurements', () => {
+      expect(new LeastLatencySelector().order(nodes, context)).toEqual(nodes);
+    });
+  });
+
+  describe('createNodeSelector', () => {
+    it('should create built-in selectors by name', () => {
+      expect(createNodeSelector('round-robin')).toBeInstanceOf(RoundRobinSelector);
+      expect(createNodeSelector('random')).toBeInstanceOf(RandomSelector);
+      expect(createNodeSelector('priority-first')).toBeInstanceOf(PriorityFirstSelector);
+      expect(createNodeSelector('weighted')).toBeInstanceOf(WeightedSelector);
+      expect(createNodeSelector('sticky')).toBeInstanceOf(StickySelector);
+      expect(createNodeSelector('least-latency')).toBeInstanceOf(LeastLatencySelector);
+    });
+
+    it('should throw ConfigurationError for unknown strategies', () => {
+      expect(() => createNodeSelector('fastest' as any)).toThrow(ConfigurationError);
+    });
+  });
+});
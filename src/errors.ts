@@ -57,6 +57,16 @@ export class ConnectionTimeoutError extends ConnectionError {
   }
 }
 
+/**
+ * Error thrown when publishing is refused because the broker blocked the connection
+ */
+export class ConnectionBlockedError extends ConnectionError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, { ...details, blocked: true });
+    this.name = 'ConnectionBlockedError';
+  }
+}
+
 /**
  * Error thrown when channel operations fail
  */
@@ -147,6 +157,16 @@ export class ClusterError extends RabbitMQError {
   }
 }
 
+/**
+ * Error thrown when an operation is cancelled through its AbortSignal
+ */
+export class OperationAbortedError extends RabbitMQError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'ERR_ABORTED', details);
+    this.name = 'OperationAbortedError';
+  }
+}
+
 /**
  * Type guard to check if error is a RabbitMQError
  */
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview HTTP health and metrics endpoints
+ * @module health
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { URL } from 'node:url';
+
+import { ConfigurationError } from './errors.js';
+import type RabbitMQClient from './rabbit.js';
+
+/**
+ * Client methods the endpoints are built on
+ * @typedef {Pick<RabbitMQClient, 'healthCheck' | 'getHealthReport' | 'getMetrics'>} HealthSource
+ */
+export type HealthSource = Pick<RabbitMQClient, 'healthCheck' | 'getHealthReport' | 'getMetrics'>;
+
+/**
+ * Paths and naming of the health endpoints
+ * @interface HealthEndpointOptions
+ */
+export interface HealthEndpointOptions {
+  /** Path of the liveness endpoint (default: '/healthz') */
+  livenessPath?: string;
+  /** Path of the readiness endpoint (default: '/readyz') */
+  readinessPath?: string;
+  /** Path of the Prometheus metrics endpoint (default: '/metrics') */
+  metricsPath?: string;
+  /** Prefix of the exported metric names (default: 'rabbitmq_client') */
+  metricsPrefix?: string;
+}
+
+/**
+ * Options of the standalone health server
+ * @interface HealthServerOptions
+ * @extends HealthEndpointOptions
+ */
+export interface HealthServerOptions extends HealthEndpointOptions {
+  /** Port to listen on, 0 for a random free port */
+  port: number;
+  /** Address to listen on (default: all interfaces) */
+  host?: string;
+}
+
+/**
+ * Request handler serving the health endpoints. Requests for other paths are passed to
+ * `next` when given, so the handler can be mounted as Express or Connect middleware, and
+ * answered with 404 otherwise.
+ */
+export type HealthRequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: () => void,
+) => void;
+
+/**
+ * Writes a JSON response
+ */
+function sendJson(
+  req: IncomingMessage,
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+    'Cache-Control': 'no-store',
+  });
+  res.end(req.method === 'HEAD' ? undefined : payload);
+}
+
+/**
+ * Renders the client metrics and health in the Prometheus text exposition format
+ *
+ * @param source - Client to report on
+ * @param prefix - Prefix of the metric names
+ * @returns Metrics text
+ */
+export function renderPrometheusMetrics(source: HealthSource, prefix = 'rabbitmq_client'): string {
+  const metrics = source.getMetrics();
+  const report = source.getHealthReport();
+  const { channelPool, consumers } = report.components;
+
+  const samples: [name: string, type: 'counter' | 'gauge', help: string, value: number][] = [
+    ['messages_sent_total', 'counter', 'Messages published', metrics.messagesSent],
+    ['messages_received_total', 'counter', 'Messages received', metrics.messagesReceived],
+    ['errors_total', 'counter', 'Errors encountered', metrics.errors],
+    ['reconnections_total', 'counter', 'Successful reconnections', metrics.reconnections],
+    [
+      'last_reconnect_timestamp_seconds',
+      'gauge',
+      'Time of the last reconnection, 0 if none',
+      metrics.lastReconnectTime ? metrics.lastReconnectTime.getTime() / 1000 : 0,
+    ],
+    [
+      'processing_time_avg_milliseconds',
+      'gauge',
+      'Average message processing time',
+      metrics.avgProcessingTime,
+    ],
+    [
+      'channel_acquisitions_total',
+      'counter',
+      'Channels acquired with getChannel()',
+      metrics.channelAcquisitions,
+    ],
+    [
+      'channel_acquisition_timeouts_total',
+      'counter',
+      'getChannel() calls that timed out waiting for a channel',
+      metrics.channelAcquisitionTimeouts,
+    ],
+    [
+      'channel_wait_avg_milliseconds',
+      'gauge',
+      'Average time getChannel() waited for a channel',
+      metrics.avgChannelWaitTime,
+    ],
+    ['live', 'gauge', 'Whether the client can still recover on its own', Number(report.live)],
+    ['ready', 'gauge', 'Whether no client component is down', Number(report.ready)],
+    [
+      'blocked',
+      'gauge',
+      'Whether the broker blocks a connection',
+      Number(report.components.blocked.status === 'down'),
+    ],
+    ['consumers', 'gauge', 'Active consumers', Number(consumers.details.count ?? 0)],
+    ['channel_pool_size', 'gauge', 'Channels in the pool', Number(channelPool.details.size ?? 0)],
+    [
+      'channel_pool_in_use',
+      'gauge',
+      'Pool channels in use',
+      Number(channelPool.details.inUse ?? 0),
+    ],
+  ];
+
+  return samples
+    .map(
+      ([name, type, help, value]) =>
+        `# HELP ${prefix}_${name} ${help}\n# TYPE ${prefix}_${name} ${type}\n${prefix}_${name} ${value}\n`,
+    )
+    .join('');
+}
+
+/**
+ * Creates a request handler serving liveness, readiness and Prometheus metrics endpoints
+ *
+ * - liveness answers 200 until the client gave up reconnecting
+ * - readiness answers 200 while `getHealthReport()` is ready and `healthCheck()` passes
+ * - both answer 503 otherwise, with the health report as JSON body
+ *
+ * @param source - Client to report on
+ * @param options - Endpoint paths and metric prefix
+ * @returns Request handler
+ * @throws {ConfigurationError} If a path does not start with '/'
+ *
+ * @example
+ * ```typescript
+ * const health = createHealthHandler(client);
+ * app.use(health);
+ * ```
+ */
+export function createHealthHandler(
+  source: HealthSource,
+  options: HealthEndpointOptions = {},
+): HealthRequestHandler {
+  const livenessPath = options.livenessPath ?? '/healthz';
+  const readinessPath = options.readinessPath ?? '/readyz';
+  const metricsPath = options.metricsPath ?? '/metrics';
+
+  for (const path of [livenessPath, readinessPath, metricsPath]) {
+    if (!path.startsWith('/')) {
+      throw new ConfigurationError(`Health endpoint path must start with '/': ${path}`, { path });
+    }
+  }
+
+  const respond = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string,
+  ): Promise<void> => {
+    if (path === metricsPath) {
+      const body = renderPrometheusMetrics(source, options.metricsPrefix);
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Content-Length': Buffer.byteLength(body),
+        'Cache-Control': 'no-store',
+      });
+      res.end(req.method === 'HEAD' ? undefined : body);
+      return;
+    }
+
+    const report = source.getHealthReport();
+    if (path === livenessPath) {
+      sendJson(req, res, report.live ? 200 : 503, {
+        status: report.live ? 'ok' : 'failed',
+        state: report.state,
+      });
+      return;
+    }
+
+    const ready = report.ready && (await source.healthCheck());
+    sendJson(req, res, ready ? 200 : 503, { ...report, ready });
+  };
+
+  return (req, res, next) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (![livenessPath, readinessPath, metricsPath].includes(path)) {
+      if (next) {
+        next();
+      } else {
+        sendJson(req, res, 404, { error: 'Not found' });
+      }
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD');
+      sendJson(req, res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    respond(req, res, path).catch((error: unknown) => {
+      if (!res.headersSent) {
+        sendJson(req, res, 503, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  };
+}
+
+/**
+ * Starts a `node:http` server serving the health endpoints of {@link createHealthHandler}
+ *
+ * @param source - Client to report on
+ * @param options - Listen address, endpoint paths and metric prefix
+ * @returns Promise resolving to the listening server; close it on shutdown
+ * @throws {ConfigurationError} If the port or a path is invalid
+ *
+ * @example
+ * ```typescript
+ * const server = await startHealthServer(client, { port: 8080 });
+ * process.on('SIGTERM', () => server.close());
+ * ```
+ */
+export async function startHealthServer(
+  source: HealthSource,
+  options: HealthServerOptions,
+): Promise<Server> {
+  if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+    throw new ConfigurationError(`Invalid health server port: ${options.port}`, {
+      port: options.port,
+    });
+  }
+
+  const server = createServer(createHealthHandler(source, options));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  return server;
+}
@@ -12,11 +12,65 @@ export { default } from './rabbit.js';
 // Export logger (optional - users can use their own)
 export { default as logger } from './logger.js';
 
+// Export cluster node selection strategies
+export {
+  RoundRobinSelector,
+  RandomSelector,
+  PriorityFirstSelector,
+  WeightedSelector,
+  StickySelector,
+  LeastLatencySelector,
+  createNodeSelector,
+} from './selectors.js';
+export type { NodeSelector, NodeSelectionContext, FailoverStrategy } from './selectors.js';
+
+// Export retry policies
+export {
+  ExponentialBackoff,
+  FullJitterBackoff,
+  DecorrelatedJitterBackoff,
+  FixedBackoff,
+  createRetryPolicy,
+} from './retry.js';
+export type {
+  RetryPolicy,
+  RetryContext,
+  RetryStrategy,
+  RetryPolicyOptions,
+  ExponentialBackoffOptions,
+} from './retry.js';
+
+// Export cluster node discovery
+export { DnsDiscovery, StaticDiscovery } from './discovery.js';
+export type {
+  NodeDiscovery,
+  DnsDiscoveryOptions,
+  DnsRecordType,
+  DnsResolver,
+} from './discovery.js';
+
+// Export cluster node probes
+export { probeTcp, probeAmqpHeader } from './probes.js';
+export type { ProbeMode, NodeProber, SocketProbeOptions } from './probes.js';
+
+// Export HTTP health and metrics endpoints
+export { createHealthHandler, startHealthServer, renderPrometheusMetrics } from './health.js';
+export type {
+  HealthSource,
+  HealthEndpointOptions,
+  HealthServerOptions,
+  HealthRequestHandler,
+} from './health.js';
+
+// Export scoped channel leases
+export { ChannelLease } from './lease.js';
+
 // Export custom error classes
 export {
   RabbitMQError,
   ConnectionError,
   ConnectionTimeoutError,
+  ConnectionBlockedError,
   ChannelError,
   ChannelAcquisitionError,
   PublishError,
@@ -26,6 +80,7 @@ export {
   ConfigurationError,
   ReconnectionError,
   ClusterError,
+  OperationAbortedError,
   isRabbitMQError,
   isConnectionError,
   isChannelError,
@@ -40,4 +95,26 @@ export type {
   MessageActions,
   ConsumeOptions,
   ConsumeCallback,
+  CircuitBreakerState,
+  NodeStatus,
+  ClusterStatus,
+  ClusterNodeStatus,
+  Credentials,
+  CredentialsProvider,
+  NodeDescriptor,
+  NodeTlsOptions,
+  ConnectionRole,
+  ConnectionState,
+  BlockedPublishMode,
+  BlockedPublishPolicy,
+  PublishChannelStrategy,
+  DeliveryGuarantee,
+  DeliveryOptions,
+  AbortOptions,
+  ChannelAcquireOptions,
+  ChannelLeakDetectionOptions,
+  ChannelLeakInfo,
+  HealthStatus,
+  ComponentHealth,
+  HealthReport,
 } from './rabbit.js';
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Scoped channel leases
+ * @module lease
+ */
+
+import type { Channel, ConfirmChannel } from 'amqplib';
+
+/**
+ * A pool channel borrowed with `acquireChannel()`, returned to the pool by `release()`.
+ * Disposing the lease releases it, so `await using` cannot forget the release:
+ *
+ * @example
+ * ```typescript
+ * await using lease = await client.acquireChannel();
+ * await lease.channel.assertQueue('my-queue');
+ * // Released when the block exits, also on errors
+ * ```
+ */
+export class ChannelLease implements AsyncDisposable {
+  /** When the channel was acquired */
+  readonly acquiredAt = new Date();
+
+  private isReleased = false;
+
+  /**
+   * @param channel - Leased channel
+   * @param onRelease - Returns the channel to the pool, called once
+   */
+  constructor(
+    readonly channel: Channel | ConfirmChannel,
+    private readonly onRelease: () => void,
+  ) {}
+
+  /** Whether the channel was already returned to the pool */
+  get released(): boolean {
+    return this.isReleased;
+  }
+
+  /**
+   * Returns the channel to the pool. Further calls do nothing.
+   */
+  release(): void {
+    if (this.isReleased) {
+      return;
+    }
+    this.isReleased = true;
+    this.onRelease();
+  }
+
+  /**
+   * Releases the lease at the end of an `await using` block
+   */
+  declare [Symbol.asyncDispose]: () => Promise<void>;
+}
+
+// Node.js before 18.18 and 20.4 has no symbol to dispose with, and `await using` needs one
+if (typeof Symbol.asyncDispose === 'symbol') {
+  ChannelLease.prototype[Symbol.asyncDispose] = async function (this: ChannelLease) {
+    this.release();
+  };
+}
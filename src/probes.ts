@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Lightweight cluster node health probes
+ * @module probes
+ */
+
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect, type ConnectionOptions as TlsConnectionOptions } from 'node:tls';
+import { URL } from 'node:url';
+
+import { ConfigurationError, ConnectionError, ConnectionTimeoutError } from './errors.js';
+
+/**
+ * Built-in probe modes
+ *
+ * - `connection`: opens and closes a full AMQP connection
+ * - `tcp`: opens a TCP connection to the node's port only
+ * - `amqp-header`: sends the AMQP protocol header and waits for the broker's Connection.Start
+ *
+ * @typedef {'connection' | 'tcp' | 'amqp-header'} ProbeMode
+ */
+export type ProbeMode = 'connection' | 'tcp' | 'amqp-header';
+
+/**
+ * User-supplied node prober. Resolves when the node is reachable and rejects otherwise.
+ *
+ * @example
+ * ```typescript
+ * const prober: NodeProber = async (url, timeout) => {
+ *   const host = new URL(url).hostname;
+ *   const res = await fetch(`http://${host}:15692/metrics`, { signal: AbortSignal.timeout(timeout) });
+ *   if (!res.ok) throw new Error(`Node ${host} returned ${res.status}`);
+ * };
+ * ```
+ */
+export type NodeProber = (url: string, timeout: number) => Promise<void>;
+
+/**
+ * Options for the built-in socket probes
+ * @interface SocketProbeOptions
+ */
+export interface SocketProbeOptions {
+  /** Probe timeout in milliseconds */
+  timeout: number;
+  /** TLS options used for `amqps:` URLs by the protocol header probe */
+  tls?: TlsConnectionOptions;
+}
+
+/**
+ * AMQP 0-9-1 protocol header
+ * @constant {Buffer} AMQP_PROTOCOL_HEADER
+ */
+const AMQP_PROTOCOL_HEADER = Buffer.from([0x41, 0x4d, 0x51, 0x50, 0x00, 0x00, 0x09, 0x01]);
+
+/** Length of a frame header plus class and method ids */
+const CONNECTION_START_PREFIX_LENGTH = 11;
+
+/**
+ * Resolves the host, port and transport of an AMQP URL
+ *
+ * @param url - AMQP URL
+ * @returns Host, port and whether the URL uses TLS
+ * @throws {ConfigurationError} If the URL cannot be parsed
+ */
+export function parseProbeTarget(url: string): { host: string; port: number; secure: boolean } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ConfigurationError('Invalid node URL');
+  }
+
+  const secure = parsed.protocol === 'amqps:';
+  return {
+    host: parsed.hostname.replace(/^\[(.*)\]$/, '$1') || 'localhost',
+    port: parsed.port ? Number(parsed.port) : secure ? 5671 : 5672,
+    secure,
+  };
+}
+
+/**
+ * Opens a socket, runs the probe and always destroys the socket afterwards
+ */
+function runSocketProbe(
+  url: string,
+  options: SocketProbeOptions,
+  open: (target: ReturnType<typeof parseProbeTarget>, onReady: () => void) => Socket,
+  onReady: (socket: Socket, resolve: () => void, reject: (error: Error) => void) => void,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const target = parseProbeTarget(url);
+    let settled = false;
+    const finish = (error?: Error): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const socket = open(target, () => onReady(socket, () => finish(), finish));
+    socket.setTimeout(options.timeout, () =>
+      finish(
+        new ConnectionTimeoutError(`Probe timed out after ${options.timeout}ms`, {
+          host: target.host,
+          port: target.port,
+        }),
+      ),
+    );
+    socket.once('error', (error) =>
+      finish(new ConnectionError(error.message, { host: target.host, port: target.port })),
+    );
+    socket.once('close', () =>
+      finish(
+        new ConnectionError('Connection closed by node during probe', {
+          host: target.host,
+          port: target.port,
+        }),
+      ),
+    );
+  });
+}
+
+/**
+ * Checks that a TCP connection to the node's port can be established
+ *
+ * @param url - AMQP URL of the node
+ * @param options - Probe options
+ * @returns Promise resolving when the node accepts the connection
+ * @throws {ConnectionError} If the connection fails or times out
+ */
+export function probeTcp(url: string, options: SocketProbeOptions): Promise<void> {
+  return runSocketProbe(
+    url,
+    options,
+    (target, onReady) => netConnect({ host: target.host, port: target.port }, onReady),
+    (_socket, resolve) => resolve(),
+  );
+}
+
+/**
+ * Sends the AMQP protocol header and waits for the broker's Connection.Start method,
+ * without completing the handshake or opening a broker connection
+ *
+ * @param url - AMQP URL of the node
+ * @param options - Probe options
+ * @returns Promise resolving when the node answers with Connection.Start
+ * @throws {ConnectionError} If the node does not answer like an AMQP 0-9-1 broker
+ */
+export function probeAmqpHeader(url: string, options: SocketProbeOptions): Promise<void> {
+  return runSocketProbe(
+    url,
+    options,
+    (target, onReady) =>
+      target.secure
+        ? tlsConnect(
+            { servername: target.host, ...options.tls, host: target.host, port: target.port },
+            onReady,
+          )
+        : netConnect({ host: target.host, port: target.port }, onReady),
+    (socket, resolve, reject) => {
+      const { host, port } = parseProbeTarget(url);
+      let received = Buffer.alloc(0);
+      socket.on('data', (chunk: Buffer) => {
+        received = Buffer.concat([received, chunk]);
+        if (received.length < CONNECTION_START_PREFIX_LENGTH) {
+          return;
+        }
+
+        // Method frame on channel 0 carrying connection (10) start (10)
+        const isConnectionStart =
+          received.readUInt8(0) === 1 &&
+          received.readUInt16BE(1) === 0 &&
+          received.readUInt16BE(7) === 10 &&
+          received.readUInt16BE(9) === 10;
+        if (isConnectionStart) {
+          resolve();
+        } else {
+          reject(
+            new ConnectionError('Node did not answer with AMQP Connection.Start', { host, port }),
+          );
+        }
+      });
+      socket.write(AMQP_PROTOCOL_HEADER);
+    },
+  );
+}
@@ -7,18 +7,40 @@
 
 import { Buffer } from 'buffer';
 import { EventEmitter } from 'events';
+import { readFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
 import { setTimeout, setInterval, clearTimeout, clearInterval } from 'node:timers';
 
 import * as amqplib from 'amqplib';
 import type { ConfirmChannel, Channel, Connection, Options, Message } from 'amqplib';
 
+import type { NodeDiscovery } from './discovery.js';
+import {
+  ChannelAcquisitionError,
+  CircuitBreakerError,
+  ClusterError,
+  ConfigurationError,
+  ConnectionBlockedError,
+  ConnectionError,
+  OperationAbortedError,
+  PublishTimeoutError,
+  ReconnectionError,
+} from './errors.js';
+import { ChannelLease } from './lease.js';
 import logger from './logger.js';
+import { probeAmqpHeader, probeTcp } from './probes.js';
+import type { NodeProber, ProbeMode } from './probes.js';
+import { createRetryPolicy, ExponentialBackoff, FixedBackoff } from './retry.js';
+import type { ExponentialBackoffOptions, RetryPolicy, RetryStrategy } from './retry.js';
+import { createNodeSelector, shuffle } from './selectors.js';
+import type { FailoverStrategy, NodeSelector } from './selectors.js';
 
 // Type assertion for amqplib connection with createConfirmChannel method
 interface AmqpConnection extends Connection {
   createConfirmChannel(): Promise<ConfirmChannel>;
   createChannel(): Promise<Channel>;
   close(): Promise<void>;
+  updateSecret(newSecret: Buffer, reason: string): Promise<void>;
 }
 
 /**
@@ -37,13 +59,13 @@ interface RabbitMQEvents {
   /** Emitted when connection attempt fails */
   connectionFailed: (error: Error) => void;
   /** Emitted when channel error occurs */
-  channelError: (error: Error) => void;
+  channelError: (error: Error, channelId: string) => void;
   /** Emitted when channel is closed */
-  channelClosed: () => void;
+  channelClosed: (channelId: string) => void;
   /** Emitted when channel drain event occurs */
-  channelDrain: () => void;
+  channelDrain: (channelId: string) => void;
   /** Emitted when message is returned by broker */
-  messageReturned: (msg: Message) => void;
+  messageReturned: (msg: Message, channelId: string) => void;
   /** Emitted periodically with current metrics */
   metrics: (metrics: Metrics) => void;
   /** Emitted when starting reconnection attempt */
@@ -57,9 +79,38 @@ interface RabbitMQEvents {
   /** Emitted when client is closed */
   closed: () => void;
   /** Emitted when connection is blocked by broker */
-  blocked: (reason: string) => void;
+  blocked: (reason: string, role: ConnectionRole) => void;
   /** Emitted when connection is unblocked by broker */
-  unblocked: () => void;
+  unblocked: (role: ConnectionRole) => void;
+  /** Emitted when the connection state changes */
+  stateChange: (
+    from: ConnectionState,
+    to: ConnectionState,
+    reason: string | undefined,
+    role: ConnectionRole,
+  ) => void;
+  /** Emitted when the circuit breaker opens after repeated failures */
+  circuitOpened: (error: Error) => void;
+  /** Emitted when the circuit breaker starts allowing probe attempts */
+  circuitHalfOpen: () => void;
+  /** Emitted when the circuit breaker closes after a successful probe */
+  circuitClosed: () => void;
+  /** Emitted when an unhealthy cluster node becomes healthy again */
+  nodeUp: (url: string) => void;
+  /** Emitted when a healthy cluster node is marked unhealthy */
+  nodeDown: (url: string, error: Error) => void;
+  /** Emitted when the client connects to a different cluster node than before */
+  nodeSwitched: (from: string, to: string) => void;
+  /** Emitted after the live connection's secret was updated with refreshed credentials */
+  credentialsRefreshed: () => void;
+  /** Emitted when refreshing credentials on the live connection fails */
+  credentialsRefreshFailed: (error: Error) => void;
+  /** Emitted when a consumer was restarted on a new channel after its channel failed */
+  consumerRecovered: (consumerTag: string, queue: string) => void;
+  /** Emitted when a consumer could not be restarted and was dropped */
+  consumerFailed: (consumerTag: string, queue: string, error: Error) => void;
+  /** Emitted when leak detection finds a pool channel held too long or never released */
+  channelLeak: (info: ChannelLeakInfo) => void;
 }
 
 /**
@@ -90,8 +141,103 @@ const CONSTANTS = {
   DEFAULT_METRICS_INTERVAL: 60000,
   /** Maximum initial connection retry attempts */
   MAXIMUM_INITIAL_CONNECTION_RETRIES: 5,
+  /** Suffix appended to the connection name of cluster health probe connections */
+  HEALTH_PROBE_CONNECTION_SUFFIX: ' (health-probe)',
+  /** Default weight of the newest sample in the node latency moving average */
+  DEFAULT_LATENCY_SMOOTHING: 0.3,
+  /** Default cluster node probe timeout in milliseconds */
+  DEFAULT_PROBE_TIMEOUT: 5000,
+  /** Default consecutive probe failures before a node is marked unhealthy */
+  DEFAULT_NODE_FAILURE_THRESHOLD: 3,
+  /** Default consecutive probe successes before a node is marked healthy again */
+  DEFAULT_NODE_SUCCESS_THRESHOLD: 1,
+  /** Default time a priority node must stay healthy before failing back */
+  DEFAULT_FAIL_BACK_DELAY: 60000,
+  /** Default maximum time to drain the previous connection after failing back */
+  DEFAULT_FAIL_BACK_DRAIN_TIMEOUT: 30000,
+  /** Default time before credential expiry at which they are refreshed */
+  DEFAULT_CREDENTIALS_REFRESH_MARGIN: 60000,
+  /** Delay before retrying a failed credentials refresh */
+  CREDENTIALS_REFRESH_RETRY_DELAY: 5000,
+  /** Default maximum number of messages held while the connection is blocked */
+  DEFAULT_BLOCKED_PUBLISH_BUFFER: 1000,
+  /** Default time a publish waits for a blocked connection in milliseconds */
+  DEFAULT_BLOCKED_PUBLISH_TIMEOUT: 30000,
+  /** Default connection health check interval in milliseconds */
+  DEFAULT_HEALTH_CHECK_INTERVAL: 30000,
+  /** Exchange checked passively by the health check, present on every vhost */
+  HEALTH_CHECK_EXCHANGE: 'amq.direct',
+  /** Default time a pool channel may be held before leak detection warns, in milliseconds */
+  DEFAULT_CHANNEL_LEAK_THRESHOLD: 30000,
+  /** Default time an idle pool channel above minChannels stays open in milliseconds */
+  DEFAULT_POOL_IDLE_TIMEOUT: 60000,
+  /** Maximum interval between idle pool channel evictions in milliseconds */
+  POOL_EVICTION_INTERVAL: 5000,
+  /** Default time a fire-and-forget publish waits for a full channel to drain in milliseconds */
+  DEFAULT_PUBLISH_DRAIN_TIMEOUT: 30000,
 } as const;
 
+/**
+ * Capabilities advertised by amqplib by default. Sent along with any user-supplied
+ * capabilities, since amqplib replaces rather than merges the capabilities table.
+ * @constant {Object} DEFAULT_CLIENT_CAPABILITIES
+ */
+const DEFAULT_CLIENT_CAPABILITIES = {
+  publisher_confirms: true,
+  exchange_exchange_bindings: true,
+  'basic.nack': true,
+  consumer_cancel_notify: true,
+  'connection.blocked': true,
+  authentication_failure_close: true,
+} as const;
+
+/**
+ * States each connection state may move to
+ * @constant {Object} CONNECTION_STATE_TRANSITIONS
+ */
+const CONNECTION_STATE_TRANSITIONS: Readonly<Record<ConnectionState, readonly ConnectionState[]>> =
+  {
+    idle: ['connecting', 'closing'],
+    connecting: ['connected', 'failed', 'closing'],
+    connected: ['blocked', 'reconnecting', 'closing'],
+    blocked: ['connected', 'reconnecting', 'closing'],
+    reconnecting: ['connected', 'failed', 'closing'],
+    closing: ['closed'],
+    closed: ['connecting', 'closing'],
+    failed: ['connecting', 'reconnecting', 'closing'],
+  };
+
+/**
+ * Events of the consuming connection re-emitted by the client when `separateConnections`
+ * is enabled. Lifecycle events (`connecting`, `connected`, `closed`) and `metrics` are
+ * emitted for the client as a whole instead.
+ * @constant {string[]} CONSUMER_CONNECTION_EVENTS
+ */
+const CONSUMER_CONNECTION_EVENTS = [
+  'blocked',
+  'unblocked',
+  'error',
+  'connectionError',
+  'connectionClosed',
+  'connectionCloseError',
+  'connectionFailed',
+  'reconnecting',
+  'reconnected',
+  'reconnectFailed',
+  'channelError',
+  'channelClosed',
+  'channelCloseError',
+  'circuitOpened',
+  'circuitHalfOpen',
+  'circuitClosed',
+  'credentialsRefreshed',
+  'credentialsRefreshFailed',
+  'nodeUp',
+  'nodeDown',
+  'nodeSwitched',
+  'stateChange',
+] as const;
+
 /**
  * Socket configuration options
  * @interface SocketOptions
@@ -108,12 +254,60 @@ interface SocketOptions {
  * @interface ClientProperties
  */
 interface ClientProperties {
-  /** Application name for identification */
+  /** Application name for identification, sent as the `product` client property */
   applicationName?: string;
+  /** Application version, sent as the `version` client property */
+  applicationVersion?: string;
   /** Client capabilities */
   capabilities?: Record<string, unknown>;
 }
 
+/**
+ * SSL/TLS configuration for amqps connections
+ * @interface SslOptions
+ */
+interface SslOptions {
+  /** Whether SSL is enabled */
+  enabled: boolean;
+  /** Whether to validate server certificate */
+  validate?: boolean;
+  /** Certificate authority certificates (PEM contents) */
+  ca?: string[];
+  /** Client certificate (PEM contents) */
+  cert?: string;
+  /** Client private key (PEM contents) */
+  key?: string;
+  /** Private key passphrase */
+  passphrase?: string;
+  /** Paths to certificate authority files, loaded on connect and on reload */
+  caPaths?: string[];
+  /** Path to client certificate file */
+  certPath?: string;
+  /** Path to client private key file */
+  keyPath?: string;
+  /** Server name for SNI and certificate hostname verification */
+  servername?: string;
+}
+
+/**
+ * TLS socket options passed to amqplib for amqps connections
+ * @interface SslSocketOptions
+ */
+interface SslSocketOptions {
+  /** Certificate authority certificates */
+  ca?: (string | Buffer)[];
+  /** Client certificate */
+  cert?: string | Buffer;
+  /** Client private key */
+  key?: string | Buffer;
+  /** Private key passphrase */
+  passphrase?: string;
+  /** Whether to reject servers with unverifiable certificates */
+  rejectUnauthorized?: boolean;
+  /** Server name for SNI */
+  servername?: string;
+}
+
 /**
  * Performance and operational metrics
  * @interface Metrics
@@ -131,6 +325,12 @@ interface Metrics {
   lastReconnectTime: Date | null;
   /** Average message processing time in milliseconds */
   avgProcessingTime: number;
+  /** Channels acquired with `getChannel()` */
+  channelAcquisitions: number;
+  /** `getChannel()` calls that timed out waiting for a channel */
+  channelAcquisitionTimeouts: number;
+  /** Average time `getChannel()` waited for a channel in milliseconds, 0 for immediate acquisitions */
+  avgChannelWaitTime: number;
 }
 
 /**
@@ -142,8 +342,19 @@ interface CircuitBreakerConfig {
   failureThreshold: number;
   /** Time in milliseconds before attempting to close circuit */
   resetTimeout: number;
+  /** Number of probe connection attempts allowed while half-open (default: 1) */
+  halfOpenMaxAttempts?: number;
 }
 
+/**
+ * Circuit breaker state
+ * - CLOSED: normal operation, requests pass through
+ * - OPEN: failure threshold reached, requests fail fast until resetTimeout elapses
+ * - HALF_OPEN: a limited number of connection probes are allowed to test recovery
+ * @typedef {'CLOSED' | 'OPEN' | 'HALF_OPEN'} CircuitBreakerState
+ */
+export type CircuitBreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
 /**
  * Channel pool configuration and state
  * @interface ChannelPool
@@ -153,16 +364,163 @@ interface ChannelPool {
   channels: (Channel | ConfirmChannel)[];
   /** Maximum number of channels in pool */
   maxChannels: number;
+  /** Number of channels kept open when idle */
+  minChannels: number;
+  /** Channels being opened, counted against maxChannels */
+  pending: number;
+  /** Idle channels being validated before they are handed to waiting callers */
+  validating: number;
   /** Set of channels currently in use */
   inUse: Set<Channel | ConfirmChannel>;
 }
 
+/**
+ * Credentials returned by a credentials provider
+ * @interface Credentials
+ */
+export interface Credentials {
+  /** Username, ignored by the OAuth2 backend when a token is given */
+  username?: string;
+  /** Password */
+  password?: string;
+  /** OAuth2 access token, sent as the password */
+  token?: string;
+  /** Expiry time; when set, the secret is refreshed on the live connection before it expires */
+  expiresAt?: Date;
+}
+
+/**
+ * Async function supplying credentials before each connection attempt and refresh
+ * @callback CredentialsProvider
+ */
+export type CredentialsProvider = () => Promise<Credentials>;
+
+/**
+ * TLS settings overridden for a single cluster node, layered on top of `ssl`
+ * @interface NodeTlsOptions
+ */
+export interface NodeTlsOptions {
+  /** Whether to validate the node's certificate */
+  validate?: boolean;
+  /** Certificate authority certificates (PEM contents) */
+  ca?: string[];
+  /** Client certificate (PEM contents) */
+  cert?: string;
+  /** Client private key (PEM contents) */
+  key?: string;
+  /** Private key passphrase */
+  passphrase?: string;
+  /** Server name for SNI and certificate hostname verification */
+  servername?: string;
+}
+
+/**
+ * Structured cluster node definition, accepted in `urls` alongside URL strings
+ *
+ * The node is identified by `protocol://hostname:port/vhost` (without credentials) in
+ * cluster status, events, `priorityNodes` and `nodeWeights`.
+ *
+ * @interface NodeDescriptor
+ *
+ * @example
+ * ```typescript
+ * const node: NodeDescriptor = {
+ *   protocol: 'amqps',
+ *   hostname: 'rabbit-1.eu-west-1a.internal',
+ *   username: 'app',
+ *   password: process.env.RABBIT_PASSWORD,
+ *   vhost: 'orders',
+ *   tls: { servername: 'rabbit.internal' },
+ *   zone: 'eu-west-1a',
+ * };
+ * ```
+ */
+export interface NodeDescriptor {
+  /** Protocol (default: 'amqp') */
+  protocol?: 'amqp' | 'amqps';
+  /** Node hostname or IP address */
+  hostname: string;
+  /** Node port (default: 5672 for amqp, 5671 for amqps) */
+  port?: number;
+  /** Username, overriding `credentialsProvider` for this node */
+  username?: string;
+  /** Password, overriding `credentialsProvider` for this node */
+  password?: string;
+  /** Virtual host, overriding `vhost` for this node */
+  vhost?: string;
+  /** TLS settings overriding `ssl` for this node */
+  tls?: NodeTlsOptions;
+  /** Relative weight for the 'weighted' strategy, overriding `clusterOptions.nodeWeights` */
+  weight?: number;
+  /** Availability zone or rack, exposed to node selectors and in the cluster status */
+  zone?: string;
+}
+
+/**
+ * What publishes do while the broker blocks the connection, e.g. on a memory alarm
+ *
+ * - `fail`: reject immediately with `ConnectionBlockedError`
+ * - `buffer`: hold up to `maxBuffered` messages and publish them once unblocked
+ * - `wait`: wait to be unblocked for up to `timeout` milliseconds
+ *
+ * @typedef {'fail' | 'buffer' | 'wait'} BlockedPublishMode
+ */
+export type BlockedPublishMode = 'fail' | 'buffer' | 'wait';
+
+/**
+ * Policy for publishes while the connection is blocked
+ * @interface BlockedPublishPolicy
+ */
+export interface BlockedPublishPolicy {
+  /** Behaviour of publishes while blocked */
+  mode: BlockedPublishMode;
+  /** Maximum messages held in `buffer` mode (default: 1000) */
+  maxBuffered?: number;
+  /** Maximum wait in milliseconds in `wait` mode (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * How publishes pick their confirm channel
+ *
+ * - `round-robin`: spread across the idle pool channels in turn
+ * - `least-outstanding`: use the idle pool channel with the fewest unconfirmed messages
+ * - `default`: always use the default channel
+ *
+ * Channels leased with `getChannel()` are skipped; without an idle pool channel, the default
+ * channel is used.
+ *
+ * @typedef {'round-robin' | 'least-outstanding' | 'default'} PublishChannelStrategy
+ */
+export type PublishChannelStrategy = 'round-robin' | 'least-outstanding' | 'default';
+
+/**
+ * Delivery guarantee of publishes
+ *
+ * - `confirm`: resolve once the broker confirmed the message, on a confirm channel
+ * - `fireAndForget`: resolve once the message is written to a plain channel; messages may be
+ *   lost, but publishing is not limited by confirm round trips. When the socket buffer is full,
+ *   publishes wait for it to drain.
+ *
+ * @typedef {'confirm' | 'fireAndForget'} DeliveryGuarantee
+ */
+export type DeliveryGuarantee = 'confirm' | 'fireAndForget';
+
+/**
+ * Per-call delivery options of publish(), sendToQueue() and publishBatch()
+ * @interface DeliveryOptions
+ */
+export interface DeliveryOptions {
+  /** Delivery guarantee of this call (default: the client's `deliveryGuarantee`) */
+  deliveryGuarantee?: DeliveryGuarantee;
+}
+
 /**
  * Comprehensive RabbitMQ client configuration options
  * @interface RabbitMQOptions
  */
 interface RabbitMQOptions {
-  /** Connection URL or connection options */
+  /** Connection URL or connection options, used as the only cluster node */
   url?: string | Options.Connect;
   /** Socket-level configuration */
   socketOptions?: SocketOptions;
@@ -172,6 +530,10 @@ interface RabbitMQOptions {
   heartbeat?: number;
   /** Human-readable connection name for debugging */
   connectionName?: string;
+  /** Supplies credentials before each connection attempt, overriding those in the URLs */
+  credentialsProvider?: CredentialsProvider;
+  /** How long before credential expiry to refresh them, in milliseconds (default: 60000) */
+  credentialsRefreshMargin?: number;
   /** Per-channel message prefetch count */
   prefetchCount?: number;
   /** Whether prefetch applies globally */
@@ -182,12 +544,56 @@ interface RabbitMQOptions {
   maxReconnectAttempts?: number;
   /** Whether to use exponential backoff for reconnection delays */
   exponentialBackoff?: boolean;
+  /**
+   * Retry policy for the initial connection, reconnection, channel recovery and publish
+   * retries: a built-in strategy name or a custom policy. Without it, reconnection follows
+   * `reconnectDelay` and `exponentialBackoff`, channel recovery waits
+   * `channelOptions.retryDelay` and the initial connection retries without delay.
+   */
+  retryPolicy?: RetryStrategy | RetryPolicy;
+  /** Options of a built-in `retryPolicy` (initialDelay defaults to `reconnectDelay`) */
+  retryOptions?: ExponentialBackoffOptions;
+  /**
+   * Times a failed publish or sendToQueue is retried, waiting as the retry policy decides.
+   * A retried message may be delivered twice (default: 0)
+   */
+  publishRetries?: number;
+  /** How publishes pick a confirm channel from the pool (default: 'round-robin') */
+  publishChannelStrategy?: PublishChannelStrategy;
+  /** Delivery guarantee of publishes, overridable per call (default: 'confirm') */
+  deliveryGuarantee?: DeliveryGuarantee;
+  /**
+   * Time a fire-and-forget publish, sendToQueue or publishBatch waits for a full channel to
+   * drain before failing with PublishTimeoutError, in milliseconds (default: 30000)
+   */
+  publishDrainTimeout?: number;
+  /**
+   * Records where pool channels are acquired and warns when one is held longer than the
+   * threshold or its lease is garbage-collected unreleased. Capturing the stack costs some
+   * time per acquisition (default: false)
+   */
+  channelLeakDetection?: boolean | ChannelLeakDetectionOptions;
   /** Channel pool configuration */
   poolConfig?: {
     /** Maximum channels in pool */
     maxChannels: number;
     /** Timeout for acquiring channel from pool */
     acquireTimeout: number;
+    /**
+     * Channels opened on connect and kept when idle; the pool grows on demand up to
+     * maxChannels (default: maxChannels)
+     */
+    minChannels?: number;
+    /**
+     * Time an idle channel above minChannels stays open before it is closed, in milliseconds
+     * (default: 60000)
+     */
+    idleTimeout?: number;
+    /**
+     * Checks an idle channel with a broker round trip before handing it out of `getChannel()`,
+     * replacing channels that fail the check (default: false)
+     */
+    validateOnBorrow?: boolean;
   };
   /** Circuit breaker configuration */
   circuitBreaker?: CircuitBreakerConfig;
@@ -198,39 +604,75 @@ interface RabbitMQOptions {
     /** Maximum time to wait before sending batch */
     timeoutMs: number;
   };
-  /** Array of cluster node URLs */
-  urls?: string[];
+  /** Cluster nodes, as URLs or structured node descriptors */
+  urls?: (string | NodeDescriptor)[];
+  /**
+   * Discovers cluster node URLs on connect, on every reconnect and on the node health
+   * check interval. Discovered URLs replace `urls`; if discovery fails, the last known URLs are kept
+   */
+  discovery?: NodeDiscovery;
+  /**
+   * Opens dedicated publishing and consuming connections, each with its own channel pool and
+   * reconnect handling, so a broker blocking publishers does not stall acknowledgements
+   * (default: false)
+   */
+  separateConnections?: boolean;
+  /**
+   * Policy for publishes while the broker blocks the connection. Without a policy, publishes are
+   * written to the blocked socket and time out.
+   */
+  blockedPublishPolicy?: BlockedPublishPolicy;
   /** Connection timeout in milliseconds */
   connectionTimeout?: number;
-  /** Strategy for selecting cluster nodes */
-  failoverStrategy?: 'round-robin' | 'random';
+  /**
+   * Interval of the connection health check in milliseconds; a failed check triggers a
+   * reconnection. 0 disables the periodic check (default: 30000)
+   */
+  healthCheckInterval?: number;
+  /**
+   * Strategy for selecting cluster nodes, either a built-in strategy name or a custom
+   * selector. Defaults to 'priority-first' when priorityNodes are configured, otherwise
+   * 'round-robin'.
+   */
+  failoverStrategy?: FailoverStrategy | NodeSelector;
   /** Virtual host name */
   vhost?: string;
   /** SSL/TLS configuration */
-  ssl?: {
-    /** Whether SSL is enabled */
-    enabled: boolean;
-    /** Whether to validate server certificate */
-    validate?: boolean;
-    /** Certificate authority certificates */
-    ca?: string[];
-    /** Client certificate */
-    cert?: string;
-    /** Client private key */
-    key?: string;
-    /** Private key passphrase */
-    passphrase?: string;
-  };
+  ssl?: SslOptions;
   /** Cluster-specific options */
   clusterOptions?: {
     /** Time to wait before trying next node */
     retryConnectTimeout?: number;
-    /** Interval for node health checks */
+    /** Interval for node health checks (default: 30000) */
     nodeRecoveryInterval?: number;
+    /**
+     * How nodes are probed during health checks: a TCP connect, an AMQP protocol header
+     * exchange, a full AMQP connection, or a custom prober (default: 'amqp-header')
+     */
+    probe?: ProbeMode | NodeProber;
+    /** Probe timeout in milliseconds (default: 5000) */
+    probeTimeout?: number;
+    /** Consecutive failed probes before a healthy node is marked unhealthy (default: 3) */
+    failureThreshold?: number;
+    /** Consecutive successful probes before an unhealthy node is marked healthy (default: 1) */
+    successThreshold?: number;
+    /**
+     * Migrate back to a higher-priority node from `priorityNodes` once it has been healthy
+     * for `failBackDelay` (default: false)
+     */
+    failBack?: boolean;
+    /** How long a priority node must stay healthy before failing back, in milliseconds (default: 60000) */
+    failBackDelay?: number;
+    /** Maximum time to drain the previous connection after failing back, in milliseconds (default: 30000) */
+    failBackDrainTimeout?: number;
     /** Whether to randomly shuffle nodes on startup */
     shuffleNodes?: boolean;
-    /** Preferred nodes to try first */
+    /** Preferred nodes to try first, used by the 'priority-first' strategy */
     priorityNodes?: string[];
+    /** Relative node weights used by the 'weighted' strategy (default weight: 1) */
+    nodeWeights?: Record<string, number>;
+    /** Weight of the newest sample in the node latency moving average, between 0 and 1 (default: 0.3) */
+    latencySmoothing?: number;
   };
   /** Channel recovery options */
   channelOptions?: {
@@ -286,6 +728,50 @@ export interface MessageActions {
   reject: (requeue?: boolean) => Promise<void>;
 }
 
+/**
+ * Options of operations that can be cancelled
+ * @interface AbortOptions
+ */
+export interface AbortOptions {
+  /** Aborting the signal rejects the operation with OperationAbortedError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of `getChannel()`
+ * @interface ChannelAcquireOptions
+ * @extends AbortOptions
+ */
+export interface ChannelAcquireOptions extends AbortOptions {
+  /**
+   * Callers with a higher priority get the next free channel first; equal priorities are
+   * served in arrival order (default: 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Options of channel leak detection
+ * @interface ChannelLeakDetectionOptions
+ */
+export interface ChannelLeakDetectionOptions {
+  /** Time a pool channel may be held before a warning, in milliseconds (default: 30000) */
+  threshold?: number;
+}
+
+/**
+ * Pool channel leak found by leak detection
+ * @interface ChannelLeakInfo
+ */
+export interface ChannelLeakInfo {
+  /** Held longer than the threshold, or lease garbage-collected without being released */
+  reason: 'threshold' | 'garbage-collected';
+  /** Time the channel has been held in milliseconds */
+  heldFor: number;
+  /** Stack trace of the acquisition */
+  stack: string | undefined;
+}
+
 /**
  * Consume options extending amqplib Options.Consume
  * @interface ConsumeOptions
@@ -295,6 +781,10 @@ export interface ConsumeOptions extends Options.Consume {
   timeout?: number;
   /** Enable manual acknowledgment mode (default: false) */
   manualAck?: boolean;
+  /** Aborting the signal cancels the consumer, or its setup if still in progress */
+  signal?: AbortSignal;
+  /** Prefetch count of the consumer's own channel (default: `prefetchCount` option) */
+  prefetch?: number;
 }
 
 /**
@@ -303,6 +793,66 @@ export interface ConsumeOptions extends Options.Consume {
  */
 export type ConsumeCallback = (msg: Message | null, actions?: MessageActions) => Promise<void>;
 
+/**
+ * Consumer created through consume(), kept so it can be restarted on a new channel or connection
+ * @interface ConsumerRegistration
+ */
+interface ConsumerRegistration {
+  /** Queue name */
+  queue: string;
+  /** Message handler */
+  onMessage: ConsumeCallback;
+  /** Consume options */
+  options: ConsumeOptions;
+  /** Channel dedicated to the consumer */
+  channel: Channel | ConfirmChannel;
+}
+
+/**
+ * Publish held back while the connection is blocked
+ * @interface BlockedPublish
+ */
+interface BlockedPublish {
+  /** Number of messages being published */
+  count: number;
+  /** Lets the publish proceed */
+  resolve: () => void;
+  /** Fails the publish */
+  reject: (error: Error) => void;
+  /** Deadline timer in `wait` mode */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Caller of `getChannel()` waiting for a pool channel
+ * @interface ChannelWaiter
+ */
+interface ChannelWaiter {
+  /** Higher priorities are served first */
+  priority: number;
+  /** When the caller started waiting, in milliseconds since the epoch */
+  enqueuedAt: number;
+  /** Hands the channel to the caller */
+  resolve: (channel: Channel | ConfirmChannel) => void;
+  /** Fails the acquisition */
+  reject: (error: Error) => void;
+  /** Acquisition timeout timer */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pool channel acquisition watched by leak detection
+ * @interface TrackedLease
+ */
+interface TrackedLease {
+  /** When the channel was acquired, in milliseconds since the epoch */
+  acquiredAt: number;
+  /** Stack trace of the acquisition */
+  stack: string | undefined;
+  /** Threshold timer, null once it fired */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
 /**
  * Message batch for bulk publishing
  * @interface MessageBatch
@@ -324,26 +874,147 @@ interface MessageBatch {
 }
 
 /**
- * Extended connection options with timeout support
+ * Extended connection options with timeout and TLS support
  * @interface ExtendedConnectOptions
  * @extends Options.Connect
+ * @extends SslSocketOptions
  */
-interface ExtendedConnectOptions extends Options.Connect {
+interface ExtendedConnectOptions extends Options.Connect, SslSocketOptions {
   /** Connection timeout in milliseconds */
   timeout?: number;
+  /** Disable Nagle's algorithm on the socket */
+  noDelay?: boolean;
+  /** Client properties sent to the broker during the AMQP handshake */
+  clientProperties?: Record<string, unknown>;
+  /** SASL credentials overriding those in the URL */
+  credentials?: ReturnType<typeof amqplib.credentials.plain>;
 }
 
+/**
+ * Purpose of a connection, used to label it in the broker management UI
+ * @typedef {'connection' | 'healthProbe'} ConnectionPurpose
+ */
+type ConnectionPurpose = 'connection' | 'healthProbe';
+
+/**
+ * Role of a client connection: `shared` carries both publishing and consuming, while
+ * `separateConnections` splits them into a `publisher` and a `consumer` connection
+ * @typedef {'shared' | 'publisher' | 'consumer'} ConnectionRole
+ */
+export type ConnectionRole = 'shared' | 'publisher' | 'consumer';
+
+/**
+ * Lifecycle state of a client connection
+ * @typedef {'idle' | 'connecting' | 'connected' | 'blocked' | 'reconnecting' | 'closing' | 'closed' | 'failed'} ConnectionState
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'blocked'
+  | 'reconnecting'
+  | 'closing'
+  | 'closed'
+  | 'failed';
+
 /**
  * Node status tracking for cluster management
  * @interface NodeStatus
  */
-interface NodeStatus {
+export interface NodeStatus {
   /** Whether the node is currently healthy */
   healthy: boolean;
   /** Last health check timestamp */
   lastChecked: Date;
   /** Number of consecutive failures */
   failureCount: number;
+  /** Number of consecutive successful probes */
+  successCount: number;
+  /** Message of the most recent probe or connection failure */
+  lastError?: string;
+  /** Start of the current run of consecutive successes */
+  healthySince?: Date;
+  /** Handshake round-trip time of the last successful connection, in milliseconds */
+  latency?: number;
+  /** Exponential moving average of the handshake round-trip time, in milliseconds */
+  averageLatency?: number;
+}
+
+/**
+ * Health of a single cluster node as reported by `getClusterStatus()`
+ * @interface ClusterNodeStatus
+ */
+export interface ClusterNodeStatus {
+  /** Node URL */
+  url: string;
+  /** Whether the node is currently considered healthy */
+  healthy: boolean;
+  /** Whether the client is currently connected to this node */
+  connected: boolean;
+  /** Number of consecutive failures */
+  failureCount: number;
+  /** Message of the most recent probe or connection failure */
+  lastError: string | null;
+  /** Time of the last probe or connection attempt, null if the node was never checked */
+  lastChecked: Date | null;
+  /** Moving average of the handshake round-trip time in milliseconds, if measured */
+  averageLatency: number | null;
+  /** Zone from the node descriptor, null for nodes given as URLs */
+  zone: string | null;
+}
+
+/**
+ * Cluster health snapshot returned by `getClusterStatus()`
+ * @interface ClusterStatus
+ */
+export interface ClusterStatus {
+  /** URL of the node the client is connected to, null when disconnected */
+  connectedNode: string | null;
+  /** Status of every configured node, in configured order */
+  nodes: ClusterNodeStatus[];
+}
+
+/**
+ * Health of a client component: `down` fails readiness, `degraded` does not
+ * @typedef {'up' | 'degraded' | 'down'} HealthStatus
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+/**
+ * Status of one component in a health report
+ * @interface ComponentHealth
+ */
+export interface ComponentHealth {
+  /** Component status */
+  status: HealthStatus;
+  /** Component-specific information, e.g. counts or the reason of a failure */
+  details: Record<string, unknown>;
+}
+
+/**
+ * Health snapshot returned by `getHealthReport()`
+ * @interface HealthReport
+ */
+export interface HealthReport {
+  /** Worst status of all components */
+  status: HealthStatus;
+  /** False once the client gave up reconnecting; a restart is needed to recover */
+  live: boolean;
+  /** True while no component is down, i.e. messages can be published and consumed */
+  ready: boolean;
+  /** Connection state of the client */
+  state: ConnectionState;
+  /** Outcome of the last connection health check, null if none ran yet */
+  lastCheck: { at: Date; healthy: boolean; error: string | null } | null;
+  /** Status of each component */
+  components: {
+    connection: ComponentHealth;
+    defaultChannel: ComponentHealth;
+    channelPool: ComponentHealth;
+    consumers: ComponentHealth;
+    circuitBreaker: ComponentHealth;
+    blocked: ComponentHealth;
+  };
 }
 
 /**
@@ -384,8 +1055,8 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   /** Client configuration options */
   private readonly options: RabbitMQOptions;
 
-  /** Whether reconnection is in progress */
-  private reconnecting = false;
+  /** Lifecycle state of the connection, changed through setState() only */
+  private state: ConnectionState = 'idle';
 
   /** Promise for current connection attempt */
   private connectionPromise: Promise<void> | null = null;
@@ -397,9 +1068,21 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   private readonly channelPool: ChannelPool = {
     channels: [],
     maxChannels: 10,
+    minChannels: 10,
+    pending: 0,
+    validating: 0,
     inUse: new Set(),
   };
 
+  /** When each pool channel was last acquired, released or published on */
+  private readonly channelLastUsed: WeakMap<Channel | ConfirmChannel, number> = new WeakMap();
+
+  /** Timer evicting idle pool channels above minChannels */
+  private poolEvictionTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Timer recovering closed default and pool channels */
+  private channelRecoveryTimer: ReturnType<typeof setInterval> | null = null;
+
   /** Performance and operational metrics */
   private readonly metrics: Metrics = {
     messagesSent: 0,
@@ -408,13 +1091,18 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     reconnections: 0,
     lastReconnectTime: null,
     avgProcessingTime: 0,
+    channelAcquisitions: 0,
+    channelAcquisitionTimeouts: 0,
+    avgChannelWaitTime: 0,
   };
 
   /** Circuit breaker state for fault tolerance */
   private readonly circuitBreaker = {
+    state: 'CLOSED' as CircuitBreakerState,
     failures: 0,
-    isOpen: false,
     lastFailure: null as Date | null,
+    openedAt: null as Date | null,
+    halfOpenAttempts: 0,
   };
 
   /** Current message batch for bulk operations */
@@ -423,11 +1111,23 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     timer: null,
   };
 
-  /** Current URL index for round-robin failover */
-  private currentUrlIndex = 0;
+  /** Strategy ordering cluster nodes for connection attempts */
+  private readonly nodeSelector: NodeSelector;
 
-  /** Whether shutdown is in progress */
-  private shutdownInProgress = false;
+  /** Policy deciding reconnection and publish retry delays */
+  private readonly retryPolicy: RetryPolicy;
+
+  /** URL of the node the client is or was last connected to */
+  private currentNode: string | null = null;
+
+  /** URLs of the known cluster nodes, most preferred first */
+  private nodeUrls: string[] = [];
+
+  /** Descriptors of nodes configured as objects, keyed by node URL */
+  private readonly nodeDescriptors = new Map<string, NodeDescriptor>();
+
+  /** Node weights for the 'weighted' strategy, including descriptor weights */
+  private readonly nodeWeights: Record<string, number> = {};
 
   /** Cluster node status tracking */
   private activeNodes: Map<string, NodeStatus> = new Map();
@@ -435,6 +1135,80 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   /** Interval timers for cleanup on close */
   private readonly intervalTimers: Set<ReturnType<typeof setInterval>> = new Set();
 
+  /** Resolved TLS socket options, loaded lazily and replaced on certificate reload */
+  private sslSocketOptions: SslSocketOptions | null = null;
+  /** Consumers created through consume(), keyed by consumer tag */
+  private readonly consumers: Map<string, ConsumerRegistration> = new Map();
+
+  /** Channel each consumed or fetched message was delivered on, used to acknowledge it */
+  private readonly deliveryChannels: WeakMap<Message, Channel | ConfirmChannel> = new WeakMap();
+
+  /** Number of deliveries currently being processed, per channel */
+  private readonly inFlightDeliveries: WeakMap<Channel | ConfirmChannel, number> = new WeakMap();
+
+  /** Credentials of the most recent client connection attempt, if a provider is configured */
+  private credentials: Credentials | null = null;
+
+  /** Timer refreshing credentials before they expire */
+  private credentialsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Whether a fail-back to a priority node is in progress */
+  private failBackInProgress = false;
+
+  /** Interval timer of the cluster node health check, while running */
+  private nodeHealthCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Interval timer of the connection health check, while running */
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Role of this client's connection */
+  private role: ConnectionRole = 'shared';
+
+  /** Client owning the consuming connection when `separateConnections` is enabled */
+  private consumerClient: RabbitMQClient | null = null;
+
+  /** Unconfirmed publishes per confirm channel */
+  private readonly outstandingConfirms: WeakMap<Channel | ConfirmChannel, number> = new WeakMap();
+
+  /** Position of the next pool channel for round-robin publishing */
+  private publishCursor = 0;
+
+  /** Plain channel of fire-and-forget publishes, opened on first use */
+  private fireAndForgetChannel: Promise<Channel> | null = null;
+
+  /** Pending waits for a channel's write buffer to drain */
+  private readonly drainWaits: WeakMap<Channel | ConfirmChannel, Promise<void>> = new WeakMap();
+
+  /** Identifier of each managed channel, passed along with its events */
+  private readonly channelIds: WeakMap<Channel | ConfirmChannel, string> = new WeakMap();
+
+  /**
+   * Sequence number of the next managed channel, shared with the consumer connection's
+   * client so identifiers in its forwarded events stay unique
+   */
+  private channelSequence = { next: 1 };
+
+  /** Outcome of the last connection health check */
+  private lastHealthCheck: HealthReport['lastCheck'] = null;
+
+  /** Reason and start of the current broker block, null while not blocked */
+  private blockedState: { reason: string; since: Date } | null = null;
+
+  /** Publishes held back while the connection is blocked, in arrival order */
+  private blockedPublishes: BlockedPublish[] = [];
+
+  /** Callers waiting for a pool channel, by descending priority and then arrival */
+  private readonly channelWaiters: ChannelWaiter[] = [];
+
+  /** Pool channels in use, watched by leak detection */
+  private readonly trackedLeases: Map<Channel | ConfirmChannel, TrackedLease> = new Map();
+
+  /** Reclaims the channels of leases garbage-collected without being released */
+  private readonly leaseFinalizer = new FinalizationRegistry<{
+    channel: Channel | ConfirmChannel;
+    lease: TrackedLease;
+  }>(({ channel, lease }) => this.handleCollectedLease(channel, lease));
+
   /**
    * Initializes a new RabbitMQ client with the specified options
    *
@@ -462,7 +1236,6 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       maxReconnectAttempts: -1,
       exponentialBackoff: true,
       connectionTimeout: 30000,
-      failoverStrategy: 'round-robin',
       poolConfig: {
         maxChannels: 10,
         acquireTimeout: 5000,
@@ -470,6 +1243,7 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       circuitBreaker: {
         failureThreshold: 5,
         resetTimeout: 30000,
+        halfOpenMaxAttempts: 1,
       },
       batchConfig: {
         size: 100,
@@ -478,23 +1252,119 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       ...options,
     };
 
+    Object.assign(this.nodeWeights, this.options.clusterOptions?.nodeWeights);
+
     // Initialize URLs array if single URL provided
     if (options.url) {
-      const url = typeof options.url === 'string' ? options.url : options.url.hostname;
-      this.options.urls = url ? [url] : [];
+      this.nodeUrls = this.registerNodes([
+        typeof options.url === 'string' ? options.url : this.toNodeDescriptor(options.url),
+      ]);
       logger.debug('Initialized URLs from single URL option', 'RabbitMQClient.constructor', {
-        urls: this.options.urls,
+        urls: this.nodeUrls,
+      });
+    } else {
+      this.nodeUrls = this.registerNodes(options.urls ?? []);
+    }
+
+    if (this.options.clusterOptions?.shuffleNodes) {
+      this.nodeUrls = shuffle(this.nodeUrls);
+      logger.debug('Shuffled cluster nodes', 'RabbitMQClient.constructor', {
+        urls: this.nodeUrls,
       });
     }
 
+    this.nodeSelector = this.resolveNodeSelector();
+    this.retryPolicy = this.resolveRetryPolicy();
+
+    if (options.separateConnections) {
+      this.role = 'publisher';
+      this.consumerClient = this.createConsumerClient(options);
+    }
+
     this.initializeMetricsCollection();
-    this.startNodeHealthCheck();
 
     logger.info('RabbitMQ client initialized successfully', 'RabbitMQClient.constructor', {
       heartbeat: this.options.heartbeat,
       maxChannels: this.options.poolConfig?.maxChannels,
-      urls: this.options.urls?.length || 0,
+      urls: this.nodeUrls.length,
+      role: this.role,
+    });
+  }
+
+  /**
+   * Creates the client owning the consuming connection. It shares node health tracking
+   * with this client, which runs the node health check for both, and its events are
+   * re-emitted by this client.
+   *
+   * @private
+   * @param {RabbitMQOptions} options - Options this client was created with
+   * @returns {RabbitMQClient} Client for the consuming connection
+   */
+  private createConsumerClient(options: RabbitMQOptions): RabbitMQClient {
+    const consumerClient = new RabbitMQClient({ ...options, separateConnections: false });
+    consumerClient.role = 'consumer';
+    consumerClient.activeNodes = this.activeNodes;
+    consumerClient.channelSequence = this.channelSequence;
+
+    for (const event of CONSUMER_CONNECTION_EVENTS) {
+      consumerClient.on(event, (...args: unknown[]) => this.emit(event, ...args));
+    }
+
+    logger.debug('Created consumer connection client', 'RabbitMQClient.createConsumerClient');
+    return consumerClient;
+  }
+
+  /**
+   * Resolves the configured failover strategy into a node selector
+   *
+   * @private
+   * @returns {NodeSelector} Node selector used for every connection attempt
+   */
+  private resolveNodeSelector(): NodeSelector {
+    const { failoverStrategy, clusterOptions } = this.options;
+
+    if (failoverStrategy && typeof failoverStrategy === 'object') {
+      return failoverStrategy;
+    }
+
+    const strategy =
+      failoverStrategy ??
+      (clusterOptions?.priorityNodes?.length ? 'priority-first' : 'round-robin');
+    const selector = createNodeSelector(strategy, {
+      priorityNodes: clusterOptions?.priorityNodes,
+      nodeWeights: this.nodeWeights,
+    });
+
+    logger.debug('Resolved node selector', 'RabbitMQClient.resolveNodeSelector', {
+      strategy: selector.name,
+    });
+    return selector;
+  }
+
+  /**
+   * Resolves the configured retry policy, falling back to the reconnect delay options
+   *
+   * @private
+   * @returns {RetryPolicy} Retry policy used for reconnection and publish retries
+   */
+  private resolveRetryPolicy(): RetryPolicy {
+    const { retryPolicy, retryOptions, reconnectDelay, exponentialBackoff } = this.options;
+
+    if (retryPolicy && typeof retryPolicy === 'object') {
+      return retryPolicy;
+    }
+
+    const initialDelay = reconnectDelay || 1000;
+    const policy = retryPolicy
+      ? createRetryPolicy(retryPolicy, { initialDelay, ...retryOptions })
+      : exponentialBackoff
+        ? new ExponentialBackoff({ initialDelay, maxDelay: CONSTANTS.MAX_RECONNECT_DELAY })
+        : new FixedBackoff({ initialDelay });
+
+    logger.debug('Resolved retry policy', 'RabbitMQClient.resolveRetryPolicy', {
+      policy: policy.name,
     });
+    return policy;
   }
 
   /**
@@ -565,28 +1435,375 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       throw error;
     }
 
-    logger.debug('Options validation completed successfully', 'RabbitMQClient.validateOptions');
-  }
+    const minChannels = options.poolConfig?.minChannels;
+    if (
+      minChannels !== undefined &&
+      !(
+        Number.isInteger(minChannels) &&
+        minChannels >= 0 &&
+        minChannels <= (options.poolConfig?.maxChannels || 10)
+      )
+    ) {
+      const error = new ConfigurationError(
+        'Min channels must be an integer between 0 and max channels',
+      );
+      logger.error('Invalid pool configuration', 'RabbitMQClient.validateOptions', {
+        minChannels,
+        maxChannels: options.poolConfig?.maxChannels,
+        error: error.message,
+      });
+      throw error;
+    }
 
-  /**
-   * Cleanup method for proper resource disposal
-   * @returns {void}
-   */
-  public [Symbol.dispose](): void {
-    logger.info('Disposing RabbitMQ client resources', 'RabbitMQClient.[Symbol.dispose]');
-    void this.close();
-  }
+    const idleTimeout = options.poolConfig?.idleTimeout;
+    if (idleTimeout !== undefined && !(idleTimeout > 0)) {
+      const error = new ConfigurationError('Pool idle timeout must be positive');
+      logger.error('Invalid pool configuration', 'RabbitMQClient.validateOptions', {
+        idleTimeout,
+        error: error.message,
+      });
+      throw error;
+    }
 
-  /**
-   * Acquires a channel from the pool or creates a new one if available
-   *
-   * @public
-   * @returns {Promise<Channel | ConfirmChannel>} Promise resolving to an available channel
-   * @throws {Error} If not connected to RabbitMQ or channel acquisition times out
+    if (options.failoverStrategy && typeof options.failoverStrategy === 'object') {
+      if (typeof options.failoverStrategy.order !== 'function') {
+        const error = new ConfigurationError('Custom failover strategy must implement order()');
+        logger.error('Invalid failover strategy', 'RabbitMQClient.validateOptions', {
+          error: error.message,
+        });
+        throw error;
+      }
+    } else if (
+      options.failoverStrategy &&
+      !['round-robin', 'random', 'priority-first', 'weighted', 'sticky', 'least-latency'].includes(
+        options.failoverStrategy,
+      )
+    ) {
+      const error = new ConfigurationError(
+        `Unknown failover strategy: ${String(options.failoverStrategy)}`,
+      );
+      logger.error('Invalid failover strategy', 'RabbitMQClient.validateOptions', {
+        failoverStrategy: options.failoverStrategy,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    for (const node of options.urls ?? []) {
+      if (typeof node === 'string') {
+        continue;
+      }
+      let reason: string | null = null;
+      if (!node.hostname) {
+        reason = 'hostname is required';
+      } else if (node.protocol !== undefined && !['amqp', 'amqps'].includes(node.protocol)) {
+        reason = `unsupported protocol ${String(node.protocol)}`;
+      } else if (
+        node.port !== undefined &&
+        (!Number.isInteger(node.port) || node.port < 1 || node.port > 65535)
+      ) {
+        reason = 'port must be an integer between 1 and 65535';
+      } else if (node.weight !== undefined && !(node.weight >= 0)) {
+        reason = 'weight must not be negative';
+      }
+
+      if (reason) {
+        const error = new ConfigurationError(`Invalid node descriptor: ${reason}`, {
+          hostname: node.hostname,
+          zone: node.zone,
+        });
+        logger.error('Invalid node descriptor', 'RabbitMQClient.validateOptions', {
+          error: error.message,
+        });
+        throw error;
+      }
+    }
+
+    const blockedPolicy = options.blockedPublishPolicy;
+    if (blockedPolicy) {
+      let reason: string | null = null;
+      if (!['fail', 'buffer', 'wait'].includes(blockedPolicy.mode)) {
+        reason = `unknown mode ${String(blockedPolicy.mode)}`;
+      } else if (
+        blockedPolicy.maxBuffered !== undefined &&
+        !(Number.isInteger(blockedPolicy.maxBuffered) && blockedPolicy.maxBuffered > 0)
+      ) {
+        reason = 'maxBuffered must be a positive integer';
+      } else if (blockedPolicy.timeout !== undefined && !(blockedPolicy.timeout > 0)) {
+        reason = 'timeout must be positive';
+      }
+
+      if (reason) {
+        const error = new ConfigurationError(`Invalid blocked publish policy: ${reason}`);
+        logger.error('Invalid blocked publish policy', 'RabbitMQClient.validateOptions', {
+          error: error.message,
+        });
+        throw error;
+      }
+    }
+
+    if (
+      options.publishChannelStrategy &&
+      !['round-robin', 'least-outstanding', 'default'].includes(options.publishChannelStrategy)
+    ) {
+      const error = new ConfigurationError(
+        `Unknown publish channel strategy: ${String(options.publishChannelStrategy)}`,
+      );
+      logger.error('Invalid publish channel strategy', 'RabbitMQClient.validateOptions', {
+        publishChannelStrategy: options.publishChannelStrategy,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (
+      options.deliveryGuarantee &&
+      !['confirm', 'fireAndForget'].includes(options.deliveryGuarantee)
+    ) {
+      const error = new ConfigurationError(
+        `Unknown delivery guarantee: ${String(options.deliveryGuarantee)}`,
+      );
+      logger.error('Invalid delivery guarantee', 'RabbitMQClient.validateOptions', {
+        deliveryGuarantee: options.deliveryGuarantee,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (
+      options.publishDrainTimeout !== undefined &&
+      !(typeof options.publishDrainTimeout === 'number' && options.publishDrainTimeout > 0)
+    ) {
+      const error = new ConfigurationError('publishDrainTimeout must be a positive number');
+      logger.error('Invalid publish drain timeout', 'RabbitMQClient.validateOptions', {
+        publishDrainTimeout: options.publishDrainTimeout,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (options.retryPolicy && typeof options.retryPolicy === 'object') {
+      if (typeof options.retryPolicy.nextDelay !== 'function') {
+        const error = new ConfigurationError('Custom retry policy must implement nextDelay()');
+        logger.error('Invalid retry policy', 'RabbitMQClient.validateOptions', {
+          error: error.message,
+        });
+        throw error;
+      }
+    } else if (
+      options.retryPolicy &&
+      !['exponential', 'full-jitter', 'decorrelated-jitter', 'fixed'].includes(options.retryPolicy)
+    ) {
+      const error = new ConfigurationError(
+        `Unknown retry strategy: ${String(options.retryPolicy)}`,
+      );
+      logger.error('Invalid retry policy', 'RabbitMQClient.validateOptions', {
+        retryPolicy: options.retryPolicy,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    const invalidRetryOption = Object.entries(options.retryOptions ?? {}).find(
+      ([, value]) => value !== undefined && !(typeof value === 'number' && value >= 0),
+    );
+    if (
+      invalidRetryOption ||
+      (options.publishRetries !== undefined &&
+        !(Number.isInteger(options.publishRetries) && options.publishRetries >= 0))
+    ) {
+      const error = new ConfigurationError(
+        invalidRetryOption
+          ? `Invalid retry options: ${invalidRetryOption[0]} must not be negative`
+          : 'publishRetries must be a non-negative integer',
+      );
+      logger.error('Invalid retry options', 'RabbitMQClient.validateOptions', {
+        error: error.message,
+      });
+      throw error;
+    }
+
+    const { probe, probeTimeout, failureThreshold, successThreshold } =
+      options.clusterOptions ?? {};
+    if (
+      probe !== undefined &&
+      typeof probe !== 'function' &&
+      !['connection', 'tcp', 'amqp-header'].includes(probe)
+    ) {
+      const error = new ConfigurationError(`Unknown cluster probe mode: ${String(probe)}`);
+      logger.error('Invalid cluster configuration', 'RabbitMQClient.validateOptions', {
+        probe,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (probeTimeout !== undefined && probeTimeout <= 0) {
+      const error = new ConfigurationError('Probe timeout must be greater than 0');
+      logger.error('Invalid cluster configuration', 'RabbitMQClient.validateOptions', {
+        probeTimeout,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    for (const [name, value] of Object.entries({ failureThreshold, successThreshold })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        const error = new ConfigurationError(`${name} must be a positive integer`);
+        logger.error('Invalid cluster configuration', 'RabbitMQClient.validateOptions', {
+          [name]: value,
+          error: error.message,
+        });
+        throw error;
+      }
+    }
+
+    if (options.discovery && typeof options.discovery.discover !== 'function') {
+      const error = new ConfigurationError('Node discovery must implement discover()');
+      logger.error('Invalid discovery configuration', 'RabbitMQClient.validateOptions', {
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (
+      options.credentialsProvider !== undefined &&
+      typeof options.credentialsProvider !== 'function'
+    ) {
+      const error = new ConfigurationError('Credentials provider must be a function');
+      logger.error('Invalid credentials configuration', 'RabbitMQClient.validateOptions', {
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (
+      options.healthCheckInterval !== undefined &&
+      !(Number.isInteger(options.healthCheckInterval) && options.healthCheckInterval >= 0)
+    ) {
+      const error = new ConfigurationError('healthCheckInterval must be a non-negative integer');
+      logger.error('Invalid health check configuration', 'RabbitMQClient.validateOptions', {
+        healthCheckInterval: options.healthCheckInterval,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    const leakThreshold =
+      typeof options.channelLeakDetection === 'object'
+        ? options.channelLeakDetection.threshold
+        : undefined;
+    if (leakThreshold !== undefined && !(leakThreshold > 0)) {
+      const error = new ConfigurationError('Channel leak threshold must be positive');
+      logger.error('Invalid channel leak detection', 'RabbitMQClient.validateOptions', {
+        threshold: leakThreshold,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (options.credentialsRefreshMargin !== undefined && options.credentialsRefreshMargin < 0) {
+      const error = new ConfigurationError('Credentials refresh margin must not be negative');
+      logger.error('Invalid credentials configuration', 'RabbitMQClient.validateOptions', {
+        credentialsRefreshMargin: options.credentialsRefreshMargin,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (options.clusterOptions?.failBack && !options.clusterOptions.priorityNodes?.length) {
+      logger.warn(
+        'Fail-back is enabled without priority nodes and will never trigger',
+        'RabbitMQClient.validateOptions',
+      );
+    }
+
+    for (const [name, value] of Object.entries({
+      failBackDelay: options.clusterOptions?.failBackDelay,
+      failBackDrainTimeout: options.clusterOptions?.failBackDrainTimeout,
+    })) {
+      if (value !== undefined && value < 0) {
+        const error = new ConfigurationError(`${name} must not be negative`);
+        logger.error('Invalid cluster configuration', 'RabbitMQClient.validateOptions', {
+          [name]: value,
+          error: error.message,
+        });
+        throw error;
+      }
+    }
+
+    const latencySmoothing = options.clusterOptions?.latencySmoothing;
+    if (latencySmoothing !== undefined && !(latencySmoothing > 0 && latencySmoothing <= 1)) {
+      const error = new ConfigurationError(
+        'Latency smoothing must be greater than 0 and at most 1',
+      );
+      logger.error('Invalid cluster configuration', 'RabbitMQClient.validateOptions', {
+        latencySmoothing,
+        error: error.message,
+      });
+      throw error;
+    }
+
+    if (options.ssl?.enabled) {
+      const hasCert = Boolean(options.ssl.cert || options.ssl.certPath);
+      const hasKey = Boolean(options.ssl.key || options.ssl.keyPath);
+      if (hasCert !== hasKey) {
+        const error = new ConfigurationError(
+          'SSL client certificate and private key must be provided together',
+        );
+        logger.error('Invalid SSL configuration', 'RabbitMQClient.validateOptions', {
+          hasCert,
+          hasKey,
+          error: error.message,
+        });
+        throw error;
+      }
+
+      const plainUrls = [...(options.urls ?? []), ...(options.url ? [options.url] : [])]
+        .map((node) =>
+          typeof node === 'string'
+            ? node
+            : `${node.protocol ?? 'amqp'}://${node.hostname ?? 'localhost'}`,
+        )
+        .filter((url) => url.startsWith('amqp://'));
+      if (plainUrls.length > 0) {
+        logger.warn(
+          'SSL is enabled but some URLs use amqp:// - TLS options only apply to amqps:// URLs',
+          'RabbitMQClient.validateOptions',
+          { plainUrls },
+        );
+      }
+    }
+
+    logger.debug('Options validation completed successfully', 'RabbitMQClient.validateOptions');
+  }
+
+  /**
+   * Cleanup method for proper resource disposal
+   * @returns {void}
+   */
+  public [Symbol.dispose](): void {
+    logger.info('Disposing RabbitMQ client resources', 'RabbitMQClient.[Symbol.dispose]');
+    void this.close();
+  }
+
+  /**
+   * Acquires a channel from the pool or creates a new one if available. When the pool is
+   * exhausted, waits in a queue ordered by priority and arrival until a channel is released.
+   * With `poolConfig.validateOnBorrow`, an idle channel is checked with the broker first.
+   *
+   * @public
+   * @param {ChannelAcquireOptions} [options] - Wait priority; aborting the signal stops waiting
+   * for a free channel
+   * @returns {Promise<Channel | ConfirmChannel>} Promise resolving to an available channel
+   * @throws {ChannelAcquisitionError} If no channel is released within `poolConfig.acquireTimeout`
+   * or the client is closed while waiting
+   * @throws {OperationAbortedError} If the signal is aborted before a channel is acquired
+   * @throws {Error} If not connected to RabbitMQ
    *
    * @example
    * ```typescript
-   * const channel = await client.getChannel();
+   * const channel = await client.getChannel({ priority: 10, signal: AbortSignal.timeout(1000) });
    * try {
    *   // Use channel for operations
    *   await channel.assertQueue('my-queue');
@@ -595,11 +1812,14 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * }
    * ```
    */
-  public async getChannel(): Promise<Channel | ConfirmChannel> {
+  public async getChannel(options: ChannelAcquireOptions = {}): Promise<Channel | ConfirmChannel> {
+    const { signal, priority = 0 } = options;
+    this.throwIfAborted(signal, 'getChannel');
     logger.debug('Acquiring channel from pool', 'RabbitMQClient.getChannel', {
       poolSize: this.channelPool.channels.length,
       inUse: this.channelPool.inUse.size,
       maxChannels: this.channelPool.maxChannels,
+      waiters: this.channelWaiters.length,
     });
 
     if (!this.connection) {
@@ -610,1460 +1830,3039 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       throw error;
     }
 
-    let timeoutId: ReturnType<typeof setTimeout>;
-    let checkIntervalId: ReturnType<typeof setInterval>;
-
     try {
-      // Try to get an available channel from the pool
-      const availableChannel = this.channelPool.channels.find(
-        (ch) => !this.channelPool.inUse.has(ch) && this.isChannelOpen(ch),
-      );
+      // Try to get an available channel from the pool, unless others are already waiting
+      const availableChannel =
+        this.channelWaiters.length === 0 ? this.findIdleChannel() : undefined;
 
       if (availableChannel) {
         this.channelPool.inUse.add(availableChannel);
+        this.channelLastUsed.set(availableChannel, Date.now());
+        if (
+          this.options.poolConfig?.validateOnBorrow &&
+          !(await this.validatePoolChannel(availableChannel))
+        ) {
+          // The failed channel left the pool, try the next one
+          return this.getChannel(options);
+        }
+        this.recordChannelAcquisition(availableChannel, 0);
         logger.debug('Acquired existing channel from pool', 'RabbitMQClient.getChannel');
         return availableChannel;
       }
 
-      // Create new channel if under limit
-      if (this.channelPool.channels.length < this.channelPool.maxChannels) {
+      // Create new channel if under limit, unless others are waiting for one
+      if (
+        this.channelWaiters.length === 0 &&
+        this.channelPool.channels.length + this.channelPool.pending < this.channelPool.maxChannels
+      ) {
         logger.debug('Creating new channel for pool', 'RabbitMQClient.getChannel');
-        const newChannel = await this.connection.createConfirmChannel();
-        this.channelPool.channels.push(newChannel);
+        const newChannel = await this.createPoolChannel();
+        if (signal?.aborted) {
+          // The new channel stays in the pool for the next caller
+          this.serveChannelWaiters();
+          this.throwIfAborted(signal, 'getChannel');
+        }
         this.channelPool.inUse.add(newChannel);
+        this.recordChannelAcquisition(newChannel, 0);
         logger.info('Created and acquired new channel', 'RabbitMQClient.getChannel', {
           totalChannels: this.channelPool.channels.length,
         });
         return newChannel;
       }
+    } catch (error) {
+      if (error instanceof OperationAbortedError) {
+        throw error;
+      }
+      logger.error('Failed to acquire channel', 'RabbitMQClient.getChannel', { error });
+      await this.handleError(error);
+      throw this.ensureError(error);
+    }
 
-      // Wait for a channel to become available
-      logger.debug('Waiting for channel to become available', 'RabbitMQClient.getChannel', {
-        timeout: this.options.poolConfig?.acquireTimeout || 5000,
-      });
+    // Wait for a channel to be released
+    const timeout = this.options.poolConfig?.acquireTimeout || 5000;
+    logger.debug('Waiting for channel to become available', 'RabbitMQClient.getChannel', {
+      timeout,
+      priority,
+      position: this.channelWaiters.length + 1,
+    });
 
-      return new Promise((resolve, reject) => {
-        timeoutId = setTimeout(() => {
-          clearInterval(checkIntervalId);
-          const error = new Error('Channel acquisition timeout');
+    let waiter: ChannelWaiter | undefined;
+    const acquired = new Promise<Channel | ConfirmChannel>((resolve, reject) => {
+      waiter = {
+        priority,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.removeChannelWaiter(waiter);
+          this.metrics.channelAcquisitionTimeouts++;
+          const error = new ChannelAcquisitionError('Channel acquisition timeout', {
+            timeout,
+            waiters: this.channelWaiters.length,
+          });
           logger.error('Channel acquisition timed out', 'RabbitMQClient.getChannel', {
             error: error.message,
-            timeout: this.options.poolConfig?.acquireTimeout || 5000,
+            timeout,
           });
           reject(error);
-        }, this.options.poolConfig?.acquireTimeout || 5000);
+        }, timeout),
+      };
 
-        checkIntervalId = setInterval(() => {
-          const channel = this.channelPool.channels.find(
-            (ch) => !this.channelPool.inUse.has(ch) && this.isChannelOpen(ch),
-          );
-          if (channel) {
-            clearTimeout(timeoutId);
-            clearInterval(checkIntervalId);
-            this.channelPool.inUse.add(channel);
-            logger.debug('Acquired channel after waiting', 'RabbitMQClient.getChannel');
-            resolve(channel);
-          }
-        }, CONSTANTS.DEFAULT_CHANNEL_CHECK_INTERVAL);
-      });
+      // Behind every waiter of the same or a higher priority
+      const position = this.channelWaiters.findIndex((queued) => queued.priority < priority);
+      this.channelWaiters.splice(
+        position === -1 ? this.channelWaiters.length : position,
+        0,
+        waiter,
+      );
+    });
+
+    // Waiters ahead of this caller are served first from channels the pool grows by
+    void this.growChannelPool();
+
+    return this.withAbort(acquired, signal, 'getChannel', () => {
+      if (!waiter) {
+        return;
+      }
+      clearTimeout(waiter.timer);
+      if (this.channelWaiters.includes(waiter)) {
+        this.removeChannelWaiter(waiter);
+      } else {
+        // Already handed a channel that the caller will never see
+        acquired.then(
+          (channel) => this.releaseChannel(channel),
+          () => {
+            /* timed out or rejected on close */
+          },
+        );
+      }
+    });
+  }
+
+  /**
+   * Checks a pool channel with a broker round trip before it is handed out, and removes it
+   * from the pool if the check fails
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Leased pool channel
+   * @returns {Promise<boolean>} Whether the channel passed the check
+   */
+  private async validatePoolChannel(channel: Channel | ConfirmChannel): Promise<boolean> {
+    try {
+      await channel.checkExchange(CONSTANTS.HEALTH_CHECK_EXCHANGE);
+      return true;
     } catch (error) {
-      logger.error('Failed to acquire channel', 'RabbitMQClient.getChannel', { error });
-      await this.handleError(error);
-      throw this.ensureError(error);
+      logger.warn(
+        'Pool channel failed validation, replacing it',
+        'RabbitMQClient.validatePoolChannel',
+        {
+          error: this.formatError(error),
+        },
+      );
+      this.channelPool.inUse.delete(channel);
+      this.channelPool.channels = this.channelPool.channels.filter((ch) => ch !== channel);
+      await channel.close().catch(() => {
+        /* ignore close errors */
+      });
+      return false;
     }
   }
 
   /**
-   * Releases a channel back to the pool for reuse
+   * Opens a confirm channel and adds it to the pool. Channels being opened count against
+   * maxChannels.
    *
-   * @public
-   * @param {Channel | ConfirmChannel} channel - The channel to release
-   * @returns {void}
-   *
-   * @example
-   * ```typescript
-   * const channel = await client.getChannel();
-   * try {
-   *   // Use channel
-   * } finally {
-   *   client.releaseChannel(channel);
-   * }
-   * ```
+   * @private
+   * @returns {Promise<ConfirmChannel>} Promise resolving to the new pool channel
+   * @throws {Error} If the connection is not established or the channel cannot be opened
    */
-  public releaseChannel(channel: Channel | ConfirmChannel): void {
-    const wasInUse = this.channelPool.inUse.has(channel);
-    this.channelPool.inUse.delete(channel);
+  private async createPoolChannel(): Promise<ConfirmChannel> {
+    if (!this.connection) {
+      throw new Error('Connection not established');
+    }
 
-    logger.debug('Released channel back to pool', 'RabbitMQClient.releaseChannel', {
-      wasInUse,
-      inUseCount: this.channelPool.inUse.size,
-      totalChannels: this.channelPool.channels.length,
-    });
+    this.channelPool.pending++;
+    try {
+      const channel = await this.openPoolChannel(this.connection);
+      this.channelPool.channels.push(channel);
+      return channel;
+    } finally {
+      this.channelPool.pending--;
+    }
   }
 
   /**
-   * Establishes a connection to RabbitMQ with automatic failover support
+   * Opens a confirm channel set up for the pool without adding it to the pool
    *
-   * @public
-   * @returns {Promise<void>} Promise that resolves when connected
-   * @throws {Error} If circuit breaker is open, already reconnecting, or connection fails
-   *
-   * @example
-   * ```typescript
-   * try {
-   *   await client.connect();
-   *   console.log('Connected to RabbitMQ');
-   * } catch (error) {
-   *   console.error('Connection failed:', error);
-   * }
-   * ```
+   * @private
+   * @param {AmqpConnection} connection - Connection to open the channel on
+   * @returns {Promise<ConfirmChannel>} Promise resolving to the new channel
+   * @throws {Error} If the channel cannot be opened
    */
-  public async connect(): Promise<void> {
-    logger.info('Initiating RabbitMQ connection', 'RabbitMQClient.connect', {
-      circuitBreakerOpen: this.circuitBreaker.isOpen,
-      reconnecting: this.reconnecting,
-      hasExistingPromise: !!this.connectionPromise,
-    });
-
-    if (this.circuitBreaker.isOpen) {
-      const error = new Error('Circuit breaker is open');
-      logger.error('Connection blocked by circuit breaker', 'RabbitMQClient.connect', {
-        error: error.message,
-        failures: this.circuitBreaker.failures,
-        lastFailure: this.circuitBreaker.lastFailure,
-      });
-      throw error;
-    }
+  private async openPoolChannel(connection: AmqpConnection): Promise<ConfirmChannel> {
+    const channel = await connection.createConfirmChannel();
+    this.setupPoolChannel(channel);
+    this.channelLastUsed.set(channel, Date.now());
+    return channel;
+  }
 
-    if (this.connectionPromise) {
-      logger.debug('Returning existing connection promise', 'RabbitMQClient.connect');
-      return this.connectionPromise;
+  /**
+   * Opens one more pool channel in the background while publishes find no idle channel or
+   * callers wait in `getChannel()`, and hands it to waiting callers in queue order
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async growChannelPool(): Promise<void> {
+    if (
+      this.channelPool.pending > 0 ||
+      this.channelPool.channels.length >= this.channelPool.maxChannels ||
+      !this.isEstablished()
+    ) {
+      return;
     }
 
-    this.connectionPromise = new Promise<void>((resolve, reject) => {
-      if (this.connection && this.isConnectionOpen(this.connection)) {
-        logger.debug('Connection already established', 'RabbitMQClient.connect');
-        resolve();
-        return;
-      }
-
-      if (this.reconnecting) {
-        const error = new Error('Already reconnecting.');
-        logger.warn('Connection attempt blocked - already reconnecting', 'RabbitMQClient.connect', {
-          error: error.message,
-        });
-        reject(error);
-        return;
+    try {
+      await this.createPoolChannel();
+      logger.debug('Grew channel pool', 'RabbitMQClient.growChannelPool', {
+        totalChannels: this.channelPool.channels.length,
+      });
+      this.serveChannelWaiters();
+      if (this.channelWaiters.length > this.channelPool.validating) {
+        void this.growChannelPool();
       }
-
-      this.reconnecting = true;
-      this.emit('connecting');
-      logger.debug('Starting connection establishment process', 'RabbitMQClient.connect');
-
-      this.establishConnection(resolve, reject).catch((error: unknown) => {
-        logger.error('Connection establishment failed', 'RabbitMQClient.connect', { error });
-        reject(this.ensureError(error));
+    } catch (error) {
+      logger.warn('Failed to grow channel pool', 'RabbitMQClient.growChannelPool', {
+        error: this.formatError(error),
       });
-    });
-
-    return this.connectionPromise;
+    }
   }
 
   /**
-   * Gets the next URL for connection attempts based on failover strategy
+   * Closes pool channels above minChannels that were idle for longer than
+   * `poolConfig.idleTimeout` and have no unconfirmed publishes
    *
    * @private
-   * @returns {string} Next URL to attempt connection
-   * @throws {Error} If no URLs are configured or URL is invalid
+   * @returns {Promise<void>}
    */
-  private getNextUrl(): string {
-    logger.debug('Getting next URL for connection', 'RabbitMQClient.getNextUrl', {
-      strategy: this.options.failoverStrategy,
-      currentIndex: this.currentUrlIndex,
-      totalUrls: this.options.urls?.length || 0,
-    });
-
-    if (!this.options.urls?.length) {
-      const error = new Error('No RabbitMQ URLs configured');
-      logger.error('No URLs configured for connection', 'RabbitMQClient.getNextUrl', {
-        error: error.message,
-      });
-      throw error;
+  private async evictIdleChannels(): Promise<void> {
+    const idleTimeout = this.options.poolConfig?.idleTimeout ?? CONSTANTS.DEFAULT_POOL_IDLE_TIMEOUT;
+    const now = Date.now();
+    const evictable = this.channelPool.channels.filter(
+      (channel) =>
+        !this.channelPool.inUse.has(channel) &&
+        this.isChannelOpen(channel) &&
+        (this.outstandingConfirms.get(channel) ?? 0) === 0 &&
+        now - (this.channelLastUsed.get(channel) ?? 0) >= idleTimeout,
+    );
+    const evicted = evictable.slice(
+      0,
+      Math.max(0, this.channelPool.channels.length - this.channelPool.minChannels),
+    );
+    if (evicted.length === 0) {
+      return;
     }
 
-    const url =
-      this.options.failoverStrategy === 'random'
-        ? this.options.urls[Math.floor(Math.random() * this.options.urls.length)]
-        : this.options.urls[this.currentUrlIndex];
-
-    if (!url) {
-      const error = new Error('Invalid URL configuration');
-      logger.error('Invalid URL retrieved from configuration', 'RabbitMQClient.getNextUrl', {
-        error: error.message,
-        currentIndex: this.currentUrlIndex,
-        urlsLength: this.options.urls.length,
+    this.channelPool.channels = this.channelPool.channels.filter(
+      (channel) => !evicted.includes(channel),
+    );
+    for (const channel of evicted) {
+      await channel.close().catch(() => {
+        /* ignore close errors */
       });
-      throw error;
     }
-
-    this.currentUrlIndex = (this.currentUrlIndex + 1) % this.options.urls.length;
-
-    logger.debug('Selected URL for connection', 'RabbitMQClient.getNextUrl', {
-      url,
-      nextIndex: this.currentUrlIndex,
+    logger.debug('Evicted idle pool channels', 'RabbitMQClient.evictIdleChannels', {
+      evicted: evicted.length,
+      totalChannels: this.channelPool.channels.length,
+      minChannels: this.channelPool.minChannels,
     });
-
-    return url;
   }
 
   /**
-   * Establishes the actual connection to RabbitMQ with retry logic
+   * Finds an open pool channel that is not leased
    *
    * @private
-   * @param {() => void} resolve - Promise resolve function
-   * @param {(error: Error) => void} reject - Promise reject function
-   * @returns {Promise<void>}
+   * @returns {Channel | ConfirmChannel | undefined} Idle channel, if any
    */
-  private async establishConnection(
-    resolve: () => void,
-    reject: (error: Error) => void,
-  ): Promise<void> {
-    try {
-      logger.info('Establishing RabbitMQ connection', 'RabbitMQClient.establishConnection', {
-        reconnectAttempts: this.reconnectAttempts,
-        maxAttempts: this.options.maxReconnectAttempts,
-      });
-
-      const connectOptions: ExtendedConnectOptions = {
-        heartbeat: this.options.heartbeat,
-        vhost: this.options.vhost,
-        timeout: this.options.connectionTimeout,
-      };
-
-      // Try to connect using the next URL
-      let url = this.getNextUrl();
-      let initialConnectionRetries = 0;
-
-      do {
-        try {
-          logger.debug(
-            `Establishing connection attempt ${initialConnectionRetries + 1} on ${url}`,
-            'RabbitMQClient.establishConnection',
-          );
-          this.connection = (await amqplib.connect(
-            url,
-            connectOptions,
-          )) as unknown as AmqpConnection;
-          logger.info('Successfully connected to RabbitMQ', 'RabbitMQClient.establishConnection', {
-            url,
-          });
-          break;
-        } catch (error) {
-          logger.warn(
-            `Connection attempt ${initialConnectionRetries + 1} failed`,
-            'RabbitMQClient.establishConnection',
-            {
-              url,
-              error: this.formatError(error),
-              attempt: initialConnectionRetries + 1,
-            },
-          );
-          initialConnectionRetries++;
-          if (initialConnectionRetries < CONSTANTS.MAXIMUM_INITIAL_CONNECTION_RETRIES) {
-            url = this.getNextUrl();
-            logger.debug(`Trying next URL: ${url}`, 'RabbitMQClient.establishConnection');
-          }
-        }
-      } while (initialConnectionRetries < CONSTANTS.MAXIMUM_INITIAL_CONNECTION_RETRIES);
+  private findIdleChannel(): Channel | ConfirmChannel | undefined {
+    return this.channelPool.channels.find(
+      (ch) => !this.channelPool.inUse.has(ch) && this.isChannelOpen(ch),
+    );
+  }
 
-      if (!this.connection) {
-        const error = new Error(
-          `Failed to connect after ${CONSTANTS.MAXIMUM_INITIAL_CONNECTION_RETRIES} attempts`,
-        );
-        logger.error('All connection attempts failed', 'RabbitMQClient.establishConnection', {
-          error: error.message,
-          attempts: initialConnectionRetries,
-        });
-        throw error;
+  /**
+   * Hands idle pool channels to waiting `getChannel()` callers in queue order. Called whenever
+   * a channel is released or added to the pool. With `poolConfig.validateOnBorrow`, each
+   * channel is validated first.
+   *
+   * @private
+   * @returns {void}
+   */
+  private serveChannelWaiters(): void {
+    while (this.channelWaiters.length > this.channelPool.validating) {
+      const channel = this.findIdleChannel();
+      if (!channel) {
+        return;
+      }
+      if (this.options.poolConfig?.validateOnBorrow) {
+        void this.validateChannelForWaiter(channel);
+      } else {
+        this.handChannelToWaiter(channel);
       }
-
-      // Setup connection monitoring
-      this.setupConnectionMonitoring();
-      this.setupConnectionHandlers();
-      await this.setupChannels();
-
-      this.resetCircuitBreakerState();
-      this.cleanupConnectionState();
-
-      logger.info(
-        'Successfully established RabbitMQ connection',
-        'RabbitMQClient.establishConnection',
-        {
-          url,
-          vhost: this.options.vhost,
-          heartbeat: this.options.heartbeat,
-        },
-      );
-
-      this.emit('connected');
-      resolve();
-    } catch (error) {
-      logger.error(
-        'Failed to establish RabbitMQ connection',
-        'RabbitMQClient.establishConnection',
-        {
-          error: this.formatError(error),
-          reconnectAttempts: this.reconnectAttempts,
-        },
-      );
-      this.handleConnectionError(error, reject);
     }
   }
 
   /**
-   * Sets up connection monitoring and health checks
+   * Hands a channel to the first waiting `getChannel()` caller
    *
    * @private
+   * @param {Channel | ConfirmChannel} channel - Idle pool channel
    * @returns {void}
    */
-  private setupConnectionMonitoring(): void {
-    if (!this.connection) {
-      logger.warn(
-        'Cannot setup monitoring - no connection',
-        'RabbitMQClient.setupConnectionMonitoring',
-      );
+  private handChannelToWaiter(channel: Channel | ConfirmChannel): void {
+    const waiter = this.channelWaiters.shift();
+    if (!waiter) {
       return;
     }
-
-    logger.debug('Setting up connection monitoring', 'RabbitMQClient.setupConnectionMonitoring');
-
-    // Monitor connection blocked/unblocked states
-    this.connection.on('blocked', (reason: string) => {
-      logger.warn('Connection blocked by broker', 'RabbitMQClient.setupConnectionMonitoring', {
-        reason,
-      });
-      this.emit('blocked', reason);
-    });
-
-    this.connection.on('unblocked', () => {
-      logger.info('Connection unblocked by broker', 'RabbitMQClient.setupConnectionMonitoring');
-      this.emit('unblocked');
+    clearTimeout(waiter.timer);
+    this.channelPool.inUse.add(channel);
+    this.channelLastUsed.set(channel, Date.now());
+    const waited = Date.now() - waiter.enqueuedAt;
+    this.recordChannelAcquisition(channel, waited);
+    logger.debug('Acquired channel after waiting', 'RabbitMQClient.handChannelToWaiter', {
+      waited,
+      priority: waiter.priority,
+      remainingWaiters: this.channelWaiters.length,
     });
+    waiter.resolve(channel);
+  }
 
-    // Periodic connection health check
-    const healthCheckIntervalId = setInterval(async () => {
-      try {
-        const isHealthy = await this.healthCheck();
-        if (!isHealthy && !this.reconnecting) {
-          logger.warn(
-            'Health check failed, initiating reconnection',
-            'RabbitMQClient.setupConnectionMonitoring',
-          );
-          await this.reconnect();
-        }
-      } catch (error) {
-        logger.error('Health check error', 'RabbitMQClient.setupConnectionMonitoring', {
-          error: this.formatError(error),
-        });
-      }
-    }, 30000); // Every 30 seconds
-    healthCheckIntervalId.unref();
-    this.intervalTimers.add(healthCheckIntervalId);
-
-    // Monitor cluster nodes health
-    if (this.options.clusterOptions?.nodeRecoveryInterval) {
-      const clusterHealthIntervalId = setInterval(async () => {
-        try {
-          await this.checkClusterNodesHealth();
-        } catch (error) {
-          logger.error('Cluster health check error', 'RabbitMQClient.setupConnectionMonitoring', {
-            error: this.formatError(error),
-          });
-        }
-      }, this.options.clusterOptions.nodeRecoveryInterval);
-      clusterHealthIntervalId.unref();
-      this.intervalTimers.add(clusterHealthIntervalId);
+  /**
+   * Validates an idle pool channel and hands it to the first waiting caller if it passes.
+   * A channel failing validation leaves the pool, and the waiters are served from the next
+   * idle channel or a new one.
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Idle pool channel
+   * @returns {Promise<void>}
+   */
+  private async validateChannelForWaiter(channel: Channel | ConfirmChannel): Promise<void> {
+    // Reserved while the check runs, so no other caller takes it
+    this.channelPool.inUse.add(channel);
+    this.channelPool.validating++;
+    const valid = await this.validatePoolChannel(channel);
+    this.channelPool.validating--;
+
+    if (valid) {
+      this.channelPool.inUse.delete(channel);
+      this.handChannelToWaiter(channel);
+    }
+    this.serveChannelWaiters();
+    if (!valid && this.channelWaiters.length > this.channelPool.validating) {
+      await this.growChannelPool();
     }
-
-    logger.debug(
-      'Connection monitoring setup completed',
-      'RabbitMQClient.setupConnectionMonitoring',
-    );
   }
 
   /**
-   * Sets up connection event handlers
+   * Removes a caller from the channel wait queue
    *
    * @private
+   * @param {ChannelWaiter | undefined} waiter - Waiter to remove
    * @returns {void}
-   * @throws {Error} If connection is not established
    */
-  private setupConnectionHandlers(): void {
-    if (!this.connection) {
-      const error = new Error('Connection not established');
-      logger.error(
-        'Cannot setup handlers - connection not established',
-        'RabbitMQClient.setupConnectionHandlers',
-        {
-          error: error.message,
-        },
-      );
-      throw error;
+  private removeChannelWaiter(waiter: ChannelWaiter | undefined): void {
+    const index = waiter ? this.channelWaiters.indexOf(waiter) : -1;
+    if (index !== -1) {
+      this.channelWaiters.splice(index, 1);
     }
-
-    logger.debug('Setting up connection event handlers', 'RabbitMQClient.setupConnectionHandlers');
-
-    this.connection.on('error', (err: Error) => {
-      logger.error(
-        `RabbitMQ connection error: ${err.message}`,
-        'RabbitMQClient.setupConnectionHandlers',
-        {
-          error: this.formatError(err),
-          stack: err.stack,
-        },
-      );
-      this.emit('connectionError', err);
-      void this.reconnect();
-    });
-
-    this.connection.on('close', () => {
-      logger.warn('RabbitMQ connection closed', 'RabbitMQClient.setupConnectionHandlers', {
-        reconnecting: this.reconnecting,
-      });
-      this.emit('connectionClosed');
-      void this.reconnect();
-    });
-
-    logger.debug(
-      'Connection event handlers setup completed',
-      'RabbitMQClient.setupConnectionHandlers',
-    );
   }
 
   /**
-   * Sets up channels including default channel and channel pool
+   * Fails every caller waiting for a channel, e.g. when the client is closed
    *
    * @private
-   * @returns {Promise<void>}
-   * @throws {Error} If connection is not established
+   * @param {Error} error - Error the waiting calls reject with
+   * @returns {void}
    */
-  private async setupChannels(): Promise<void> {
-    if (!this.connection) {
-      const error = new Error('Connection not established');
-      logger.error('Cannot setup channels - no connection', 'RabbitMQClient.setupChannels', {
-        error: error.message,
-      });
-      throw error;
+  private rejectChannelWaiters(error: Error): void {
+    for (const waiter of this.channelWaiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
     }
+  }
 
-    logger.debug('Setting up channels', 'RabbitMQClient.setupChannels');
-
-    this.defaultChannel = await this.connection.createConfirmChannel();
-    await this.setupDefaultChannel();
-    await this.initializeChannelPool();
+  /**
+   * Updates the channel acquisition count and average wait time, and starts watching the
+   * channel for leaks when `channelLeakDetection` is enabled
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Acquired channel
+   * @param {number} waited - Time the caller waited in milliseconds
+   * @returns {void}
+   */
+  private recordChannelAcquisition(channel: Channel | ConfirmChannel, waited: number): void {
+    this.metrics.channelAcquisitions++;
+    this.metrics.avgChannelWaitTime +=
+      (waited - this.metrics.avgChannelWaitTime) / this.metrics.channelAcquisitions;
 
-    // Add channel recovery logic
-    const channelRecoveryIntervalId = setInterval(async () => {
-      try {
-        await this.checkAndRecoverChannels();
-      } catch (error) {
-        logger.error('Channel recovery error', 'RabbitMQClient.setupChannels', {
-          error: this.formatError(error),
-        });
-      }
-    }, 5000); // Check every 5 seconds
-    channelRecoveryIntervalId.unref();
-    this.intervalTimers.add(channelRecoveryIntervalId);
+    const leakDetection = this.options.channelLeakDetection;
+    if (!leakDetection) {
+      return;
+    }
 
-    logger.info('Channels setup completed', 'RabbitMQClient.setupChannels', {
-      defaultChannelCreated: !!this.defaultChannel,
-      poolSize: this.channelPool.channels.length,
-    });
+    const threshold =
+      (typeof leakDetection === 'object' ? leakDetection.threshold : undefined) ??
+      CONSTANTS.DEFAULT_CHANNEL_LEAK_THRESHOLD;
+    const lease: TrackedLease = {
+      acquiredAt: Date.now(),
+      stack: new Error('Channel acquired').stack,
+      timer: setTimeout(() => {
+        lease.timer = null;
+        this.reportChannelLeak(lease, 'threshold');
+      }, threshold),
+    };
+    lease.timer?.unref();
+    this.trackedLeases.set(channel, lease);
   }
 
   /**
-   * Checks and recovers failed channels
+   * Stops watching a released channel for leaks
    *
    * @private
-   * @returns {Promise<void>}
+   * @param {Channel | ConfirmChannel} channel - Released channel
+   * @returns {void}
    */
-  private async checkAndRecoverChannels(): Promise<void> {
-    if (!this.connection || !this.isConnectionOpen(this.connection)) {
-      logger.debug(
-        'Cannot recover channels - connection is not open',
-        'RabbitMQClient.checkAndRecoverChannels',
-      );
-      return;
-    }
-
-    try {
-      logger.trace('Checking channel health', 'RabbitMQClient.checkAndRecoverChannels');
-
-      // Check and recover default channel
-      if (!this.defaultChannel || !this.isChannelOpen(this.defaultChannel)) {
-        logger.info(
-          'Attempting to recover default channel',
-          'RabbitMQClient.checkAndRecoverChannels',
-        );
-        const maxRetries = this.options.channelOptions?.maxRetries || 3;
-        const retryDelay = this.options.channelOptions?.retryDelay || 1000;
-
-        for (let attempt = 0; attempt < maxRetries; attempt++) {
-          try {
-            this.defaultChannel = await this.connection.createConfirmChannel();
-            await this.setupDefaultChannel();
-            logger.info(
-              'Successfully recovered default channel',
-              'RabbitMQClient.checkAndRecoverChannels',
-            );
-            break;
-          } catch (error) {
-            logger.error(
-              `Failed to recover default channel, attempt ${attempt + 1}/${maxRetries}`,
-              'RabbitMQClient.checkAndRecoverChannels',
-              {
-                error: this.formatError(error),
-              },
-            );
-            if (attempt < maxRetries - 1) {
-              await new Promise((resolve) => setTimeout(resolve, retryDelay));
-            } else {
-              throw error;
-            }
-          }
-        }
-      }
-
-      // Check and recover pool channels
-      const recoveryPromises = this.channelPool.channels.map(async (_channel, index) => {
-        if (!this.isChannelOpen(_channel)) {
-          logger.info(
-            `Attempting to recover pool channel ${index}`,
-            'RabbitMQClient.checkAndRecoverChannels',
-          );
-
-          for (
-            let attempt = 0;
-            attempt < (this.options.channelOptions?.maxRetries || 3);
-            attempt++
-          ) {
-            try {
-              const newChannel = await this.recoverChannel(_channel);
-              if (newChannel) {
-                // eslint-disable-next-line security/detect-object-injection
-                this.channelPool.channels[index] = newChannel;
-                if (this.channelPool.inUse.has(_channel)) {
-                  this.channelPool.inUse.delete(_channel);
-                  this.channelPool.inUse.add(newChannel);
-                }
-                logger.info(
-                  `Successfully recovered pool channel ${index}`,
-                  'RabbitMQClient.checkAndRecoverChannels',
-                );
-                break;
-              }
-            } catch (error) {
-              logger.error(
-                `Failed to recover pool channel ${index}, attempt ${attempt + 1}`,
-                'RabbitMQClient.checkAndRecoverChannels',
-                {
-                  error: this.formatError(error),
-                },
-              );
-              if (attempt === (this.options.channelOptions?.maxRetries || 3) - 1) {
-                throw error;
-              }
-              await new Promise((resolve) =>
-                setTimeout(resolve, this.options.channelOptions?.retryDelay || 1000),
-              );
-            }
-          }
-        }
-      });
-
-      await Promise.all(recoveryPromises);
-    } catch (error) {
-      logger.error(
-        'Channel recovery failed, initiating reconnection',
-        'RabbitMQClient.checkAndRecoverChannels',
-        {
-          error: this.formatError(error),
-        },
-      );
-      await this.reconnect();
+  private untrackChannelLease(channel: Channel | ConfirmChannel): void {
+    const lease = this.trackedLeases.get(channel);
+    if (lease?.timer) {
+      clearTimeout(lease.timer);
     }
+    this.trackedLeases.delete(channel);
   }
 
   /**
-   * Sets up the default confirm channel with prefetch and event handlers
+   * Stops watching all channels for leaks, once the pool is emptied
    *
    * @private
-   * @returns {Promise<void>}
-   * @throws {Error} If default channel is not established
+   * @returns {void}
    */
-  private async setupDefaultChannel(): Promise<void> {
-    if (!this.defaultChannel) {
-      const error = new Error('Default channel not established');
-      logger.error(
-        'Cannot setup default channel - not created',
-        'RabbitMQClient.setupDefaultChannel',
-        {
-          error: error.message,
-        },
-      );
-      throw error;
-    }
-
-    logger.debug('Setting up default channel', 'RabbitMQClient.setupDefaultChannel', {
-      prefetchCount: this.options.prefetchCount,
-      prefetchGlobal: this.options.prefetchGlobal,
-    });
-
-    if (this.options.prefetchCount) {
-      await this.defaultChannel.prefetch(this.options.prefetchCount, this.options.prefetchGlobal);
-      logger.debug('Prefetch configured on default channel', 'RabbitMQClient.setupDefaultChannel', {
-        count: this.options.prefetchCount,
-        global: this.options.prefetchGlobal,
-      });
+  private clearChannelLeases(): void {
+    for (const channel of [...this.trackedLeases.keys()]) {
+      this.untrackChannelLease(channel);
     }
-
-    this.defaultChannel.on('error', async (err: Error) => {
-      logger.error('Default channel error', 'RabbitMQClient.setupDefaultChannel', {
-        error: this.formatError(err),
-      });
-      this.emit('channelError', err);
-      await this.reconnect().catch((error) => this.emit('error', this.ensureError(error)));
-    });
-
-    this.defaultChannel.on('return', (msg) => {
-      logger.warn('Message returned by broker', 'RabbitMQClient.setupDefaultChannel', {
-        exchange: msg.fields.exchange,
-        routingKey: msg.fields.routingKey,
-        replyCode: msg.fields.replyCode,
-        replyText: msg.fields.replyText,
-      });
-      this.emit('messageReturned', msg);
-    });
-
-    this.defaultChannel.on('drain', () => {
-      logger.debug('Channel drain event', 'RabbitMQClient.setupDefaultChannel');
-      this.emit('channelDrain');
-    });
-
-    logger.debug('Default channel setup completed', 'RabbitMQClient.setupDefaultChannel');
   }
 
   /**
-   * Initializes the channel pool with configured number of channels
+   * Warns about a channel held too long or dropped without being released
    *
    * @private
-   * @returns {Promise<void>}
-   * @throws {Error} If connection is not established
+   * @param {TrackedLease} lease - Acquisition of the leaked channel
+   * @param {ChannelLeakInfo['reason']} reason - How the leak was detected
+   * @returns {void}
    */
-  private async initializeChannelPool(): Promise<void> {
-    if (!this.connection) {
-      const error = new Error('Connection not established');
-      logger.error(
-        'Cannot initialize channel pool - no connection',
-        'RabbitMQClient.initializeChannelPool',
-        {
-          error: error.message,
-        },
-      );
-      throw error;
-    }
-
-    const maxChannels = this.options.poolConfig?.maxChannels ?? 10;
-    logger.debug('Initializing channel pool', 'RabbitMQClient.initializeChannelPool', {
-      maxChannels,
-    });
-
-    for (let i = 0; i < maxChannels; i++) {
-      try {
-        const channel = await this.connection.createConfirmChannel();
-        this.channelPool.channels.push(channel);
-        logger.trace(
-          `Created pool channel ${i + 1}/${maxChannels}`,
-          'RabbitMQClient.initializeChannelPool',
-        );
-      } catch (error) {
-        logger.error(
-          `Failed to create pool channel ${i + 1}`,
-          'RabbitMQClient.initializeChannelPool',
-          {
-            error: this.formatError(error),
-          },
-        );
-        throw error;
-      }
-    }
-
-    this.channelPool.maxChannels = maxChannels;
-    logger.info('Channel pool initialized', 'RabbitMQClient.initializeChannelPool', {
-      channelCount: this.channelPool.channels.length,
-      maxChannels,
-    });
+  private reportChannelLeak(lease: TrackedLease, reason: ChannelLeakInfo['reason']): void {
+    const info: ChannelLeakInfo = {
+      reason,
+      heldFor: Date.now() - lease.acquiredAt,
+      stack: lease.stack,
+    };
+    logger.warn(
+      reason === 'threshold'
+        ? 'Channel held longer than the leak detection threshold'
+        : 'Channel lease garbage-collected without being released',
+      'RabbitMQClient.reportChannelLeak',
+      { ...info },
+    );
+    this.emit('channelLeak', info);
   }
 
   /**
-   * Resets circuit breaker state after successful connection
+   * Reclaims the channel of a lease that was garbage-collected without being released
    *
    * @private
+   * @param {Channel | ConfirmChannel} channel - Channel of the collected lease
+   * @param {TrackedLease} lease - Acquisition of the collected lease
    * @returns {void}
    */
-  private resetCircuitBreakerState(): void {
-    const wasOpen = this.circuitBreaker.isOpen;
-    this.circuitBreaker.failures = 0;
-    this.circuitBreaker.isOpen = false;
-    this.circuitBreaker.lastFailure = null;
-
-    if (wasOpen) {
-      logger.info(
-        'Circuit breaker reset after successful connection',
-        'RabbitMQClient.resetCircuitBreakerState',
-      );
+  private handleCollectedLease(channel: Channel | ConfirmChannel, lease: TrackedLease): void {
+    // The channel may have been released directly and handed to another caller since
+    if (this.trackedLeases.get(channel) !== lease || !this.channelPool.inUse.has(channel)) {
+      return;
     }
+    this.reportChannelLeak(lease, 'garbage-collected');
+    this.releaseChannel(channel);
   }
 
   /**
-   * Cleans up connection state flags
+   * Releases a channel back to the pool for reuse. The channel goes straight to the next
+   * caller waiting in `getChannel()`, if any.
    *
-   * @private
+   * @public
+   * @param {Channel | ConfirmChannel} channel - The channel to release
    * @returns {void}
+   *
+   * @example
+   * ```typescript
+   * const channel = await client.getChannel();
+   * try {
+   *   // Use channel
+   * } finally {
+   *   client.releaseChannel(channel);
+   * }
+   * ```
    */
-  private cleanupConnectionState(): void {
-    this.reconnecting = false;
-    this.connectionPromise = null;
-    logger.debug('Connection state cleaned up', 'RabbitMQClient.cleanupConnectionState');
+  public releaseChannel(channel: Channel | ConfirmChannel): void {
+    const wasInUse = this.channelPool.inUse.has(channel);
+    this.channelPool.inUse.delete(channel);
+    this.untrackChannelLease(channel);
+    if (wasInUse) {
+      this.channelLastUsed.set(channel, Date.now());
+    }
+
+    logger.debug('Released channel back to pool', 'RabbitMQClient.releaseChannel', {
+      wasInUse,
+      inUseCount: this.channelPool.inUse.size,
+      totalChannels: this.channelPool.channels.length,
+      waiters: this.channelWaiters.length,
+    });
+    this.serveChannelWaiters();
   }
 
   /**
-   * Handles connection errors and updates circuit breaker state
+   * Gets the identifier the client passes along with a channel's `channelError`,
+   * `channelClosed`, `messageReturned` and `channelDrain` events
    *
-   * @private
-   * @param {unknown} error - The error that occurred
-   * @param {(error: Error) => void} reject - Promise rejection function
-   * @returns {void}
+   * @public
+   * @param {Channel | ConfirmChannel} channel - A channel opened by the client
+   * @returns {string | undefined} The channel identifier, or undefined for other channels
+   *
+   * @example
+   * ```typescript
+   * const channel = await client.getChannel();
+   * client.on('messageReturned', (msg, channelId) => {
+   *   if (channelId === client.getChannelId(channel)) {
+   *     console.warn('Unroutable message', msg.fields.routingKey);
+   *   }
+   * });
+   * ```
    */
-  private handleConnectionError(error: unknown, reject: (error: Error) => void): void {
-    this.circuitBreaker.failures++;
-    this.circuitBreaker.isOpen =
-      this.circuitBreaker.failures >= (this.options.circuitBreaker?.failureThreshold ?? 5);
-    this.circuitBreaker.lastFailure = new Date();
-
-    logger.error('Connection error handled', 'RabbitMQClient.handleConnectionError', {
-      error: this.formatError(error),
-      failures: this.circuitBreaker.failures,
-      circuitBreakerOpen: this.circuitBreaker.isOpen,
-      threshold: this.options.circuitBreaker?.failureThreshold ?? 5,
-    });
-
-    this.cleanupConnectionState();
-    this.emit('connectionFailed', this.ensureError(error));
-    reject(this.ensureError(error));
+  public getChannelId(channel: Channel | ConfirmChannel): string | undefined {
+    return this.channelIds.get(channel);
   }
 
   /**
-   * Calculates the delay for the next reconnection attempt
+   * Acquires a pool channel as a lease that returns it to the pool when released or
+   * disposed, so `await using` releases the channel even when the block throws. With
+   * `channelLeakDetection` enabled, a lease garbage-collected without being released is
+   * reported and its channel reclaimed.
    *
-   * @private
-   * @returns {number} Delay in milliseconds
+   * @public
+   * @param {ChannelAcquireOptions} [options] - Wait priority; aborting the signal stops waiting
+   * @returns {Promise<ChannelLease>} Promise resolving to the channel lease
+   * @throws {ChannelAcquisitionError} If no channel becomes available within the acquire timeout
+   * @throws {OperationAbortedError} If the signal is aborted while waiting
+   *
+   * @example
+   * ```typescript
+   * await using lease = await client.acquireChannel();
+   * await lease.channel.assertQueue('my-queue');
+   * ```
    */
-  private calculateReconnectDelay(): number {
-    const baseDelay = this.options.reconnectDelay || 1000;
-    const maxDelay = 60000; // 1 minute max
-
-    if (!this.options.exponentialBackoff) {
-      logger.debug('Using fixed reconnect delay', 'RabbitMQClient.calculateReconnectDelay', {
-        delay: baseDelay,
-      });
-      return baseDelay;
-    }
-
-    // Calculate exponential backoff with jitter
-    const exponentialDelay = Math.min(baseDelay * Math.pow(2, this.reconnectAttempts), maxDelay);
-
-    // Add random jitter (±20%)
-    const jitter = exponentialDelay * 0.2 * (Math.random() * 2 - 1);
-    const finalDelay = Math.max(baseDelay, Math.min(exponentialDelay + jitter, maxDelay));
-
-    logger.debug('Calculated exponential backoff delay', 'RabbitMQClient.calculateReconnectDelay', {
-      baseDelay,
-      exponentialDelay,
-      jitter,
-      finalDelay,
-      attempt: this.reconnectAttempts,
+  public async acquireChannel(options: ChannelAcquireOptions = {}): Promise<ChannelLease> {
+    const channel = await this.getChannel(options);
+    const lease = new ChannelLease(channel, () => {
+      this.leaseFinalizer.unregister(lease);
+      this.releaseChannel(channel);
     });
 
-    return finalDelay;
+    const tracked = this.trackedLeases.get(channel);
+    if (tracked) {
+      this.leaseFinalizer.register(lease, { channel, lease: tracked }, lease);
+    }
+    return lease;
   }
 
   /**
-   * Attempts to reconnect to RabbitMQ with exponential backoff
+   * Runs a function with a pool channel and releases the channel when the function settles
    *
-   * @private
-   * @returns {Promise<void>}
-   * @throws {Error} If maximum reconnection attempts exceeded
-   */
-  private async reconnect(): Promise<void> {
-    if (this.shutdownInProgress) {
-      logger.debug('Reconnection skipped - shutdown in progress', 'RabbitMQClient.reconnect');
-      return;
-    }
-
-    // Allow reconnection attempts even if reconnecting flag is true
-    // as the previous attempt might have failed
-    this.reconnecting = true;
-    let lastError: Error | null = null;
-
+   * @public
+   * @template T
+   * @param {(channel: Channel | ConfirmChannel) => Promise<T>} fn - Work to run on the channel
+   * @param {ChannelAcquireOptions} [options] - Wait priority; aborting the signal stops waiting
+   * @returns {Promise<T>} Promise resolving to the result of `fn`
+   * @throws {ChannelAcquisitionError} If no channel becomes available within the acquire timeout
+   * @throws {OperationAbortedError} If the signal is aborted while waiting
+   * @throws {Error} Whatever `fn` throws, after the channel was released
+   *
+   * @example
+   * ```typescript
+   * const { messageCount } = await client.withChannel((channel) =>
+   *   channel.checkQueue('my-queue'),
+   * );
+   * ```
+   */
+  public async withChannel<T>(
+    fn: (channel: Channel | ConfirmChannel) => Promise<T>,
+    options: ChannelAcquireOptions = {},
+  ): Promise<T> {
+    const lease = await this.acquireChannel(options);
     try {
-      logger.info('Starting reconnection process', 'RabbitMQClient.reconnect', {
-        attempt: this.reconnectAttempts + 1,
-        maxAttempts: this.options.maxReconnectAttempts,
-        shutdownInProgress: this.shutdownInProgress,
-      });
-
-      // Force cleanup of existing connections/channels
-      await this.forceCleanup();
-
-      while (!this.isConnectionOpen(this.connection)) {
-        try {
-          const delay = this.calculateReconnectDelay();
-
-          logger.info('Attempting to reconnect', 'RabbitMQClient.reconnect', {
-            attempt: this.reconnectAttempts + 1,
-            delay,
-            maxAttempts: this.options.maxReconnectAttempts,
-          });
-
-          this.emit('reconnecting');
-
-          // Wait for calculated delay
-          await new Promise((resolve) => setTimeout(resolve, delay));
-
-          // Try to establish new connection
-          this.connection = await this.tryNextClusterNode();
-
-          // Setup new connection handlers first
-          this.setupConnectionHandlers();
+      return await fn(lease.channel);
+    } finally {
+      lease.release();
+    }
+  }
 
-          // Setup connection monitoring
-          this.setupConnectionMonitoring();
+  /**
+   * Establishes a connection to RabbitMQ with automatic failover support
+   *
+   * While the client is reconnecting, waits for the outcome of the reconnection.
+   *
+   * Aborting the signal rejects the call. If this call started the connection, no further
+   * node is tried; callers joining a connection already in progress only stop waiting.
+   *
+   * @public
+   * @param {AbortOptions} [options] - Connect options
+   * @returns {Promise<void>} Promise that resolves when connected
+   * @throws {CircuitBreakerError} If circuit breaker is open or out of half-open probe attempts
+   * @throws {OperationAbortedError} If the signal is aborted before the connection is established
+   * @throws {Error} If the connection or the reconnection in progress fails
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await client.connect({ signal: AbortSignal.timeout(10000) });
+   *   console.log('Connected to RabbitMQ');
+   * } catch (error) {
+   *   console.error('Connection failed:', error);
+   * }
+   * ```
+   */
+  public async connect(options: AbortOptions = {}): Promise<void> {
+    const { signal } = options;
+    logger.info('Initiating RabbitMQ connection', 'RabbitMQClient.connect', {
+      circuitBreakerState: this.circuitBreaker.state,
+      state: this.state,
+      hasExistingPromise: !!this.connectionPromise,
+    });
 
-          // Then setup channels
-          await this.setupChannels();
+    this.throwIfAborted(signal, 'connect');
 
-          this.reconnectAttempts = 0;
-          this.metrics.reconnections++;
-          this.metrics.lastReconnectTime = new Date();
+    if (this.state === 'reconnecting') {
+      logger.debug('Waiting for reconnection in progress', 'RabbitMQClient.connect');
+      return this.withConsumerConnection(this.waitForReconnection(signal), signal);
+    }
 
-          logger.info('Successfully reconnected', 'RabbitMQClient.reconnect', {
-            totalReconnections: this.metrics.reconnections,
-            lastReconnectTime: this.metrics.lastReconnectTime,
-          });
-          this.emit('reconnected');
+    if (this.connectionPromise) {
+      logger.debug('Returning existing connection promise', 'RabbitMQClient.connect');
+      return this.withAbort(
+        this.withConsumerConnection(this.connectionPromise, signal),
+        signal,
+        'connect',
+      );
+    }
 
-          // Reset reconnecting flag only after successful reconnection
-          this.reconnecting = false;
-          return;
-        } catch (error) {
-          lastError = this.ensureError(error);
-          this.reconnectAttempts++;
+    this.checkCircuitBreaker('connect');
 
-          logger.error('Reconnection attempt failed', 'RabbitMQClient.reconnect', {
-            error: this.formatError(lastError),
-            attempt: this.reconnectAttempts,
-            maxAttempts: this.options.maxReconnectAttempts,
-          });
+    this.connectionPromise = new Promise<void>((resolve, reject) => {
+      if (this.connection && this.isConnectionOpen(this.connection)) {
+        logger.debug('Connection already established', 'RabbitMQClient.connect');
+        resolve();
+        return;
+      }
 
-          if (
-            this.options.maxReconnectAttempts !== -1 &&
-            this.reconnectAttempts >= (this.options.maxReconnectAttempts || 0)
-          ) {
-            logger.error('Max reconnection attempts exceeded', 'RabbitMQClient.reconnect', {
-              attempts: this.reconnectAttempts,
-              maxAttempts: this.options.maxReconnectAttempts,
-              error: this.formatError(lastError),
-            });
+      this.setState('connecting');
+      this.emit('connecting');
+      logger.debug('Starting connection establishment process', 'RabbitMQClient.connect');
 
-            this.emit('reconnectFailed', lastError);
-            throw lastError;
-          }
-        }
-      }
-    } catch (error) {
-      this.reconnecting = false;
-      logger.error('Reconnection process failed', 'RabbitMQClient.reconnect', {
-        error: this.formatError(error),
+      this.establishConnection(resolve, reject, signal).catch((error: unknown) => {
+        logger.error('Connection establishment failed', 'RabbitMQClient.connect', { error });
+        reject(this.ensureError(error));
       });
-      throw error;
-    }
+    });
+
+    return this.withAbort(
+      this.withConsumerConnection(this.connectionPromise, signal),
+      signal,
+      'connect',
+    );
   }
 
   /**
-   * Forces cleanup of all connections and channels
+   * Waits until the reconnection in progress succeeds or fails
    *
    * @private
-   * @returns {Promise<void>}
+   * @param {AbortSignal} [signal] - Stops waiting when aborted
+   * @returns {Promise<void>} Promise that resolves once reconnected
+   * @throws {ReconnectionError} If the reconnection fails or the client is closed first
+   * @throws {OperationAbortedError} If the signal is aborted while waiting
    */
-  private async forceCleanup(): Promise<void> {
-    logger.debug(
-      'Starting force cleanup of connections and channels',
-      'RabbitMQClient.forceCleanup',
-    );
-
-    try {
-      // Force close all channels in the pool
-      for (const channel of this.channelPool.channels) {
-        try {
-          if (channel && typeof channel.close === 'function') {
-            await channel.close().catch(() => {
-              /* ignore close errors */
-            });
-          }
-        } catch (error) {
-          logger.debug('Error closing pool channel', 'RabbitMQClient.forceCleanup', {
-            error: this.formatError(error),
-          });
+  private async waitForReconnection(signal?: AbortSignal): Promise<void> {
+    let stopListening = (): void => undefined;
+    const outcome = new Promise<void>((resolve, reject) => {
+      const onStateChange = (
+        _from: ConnectionState,
+        to: ConnectionState,
+        reason: string | undefined,
+        role: ConnectionRole,
+      ): void => {
+        // Ignore state changes re-emitted from the consuming connection
+        if (role !== this.role) {
+          return;
         }
-      }
-      this.channelPool.channels = [];
-      this.channelPool.inUse.clear();
-
-      // Force close default channel
-      if (this.defaultChannel) {
-        try {
-          await this.defaultChannel.close().catch(() => {
-            /* ignore close errors */
-          });
-        } catch (error) {
-          logger.debug('Error closing default channel', 'RabbitMQClient.forceCleanup', {
-            error: this.formatError(error),
-          });
+        if (to === 'connected' || to === 'blocked') {
+          stopListening();
+          resolve();
+        } else if (to === 'failed' || to === 'closing') {
+          stopListening();
+          reject(
+            new ReconnectionError(
+              to === 'failed'
+                ? `Reconnection failed: ${reason ?? 'unknown error'}`
+                : 'Client closed while reconnecting',
+              { state: to },
+            ),
+          );
         }
-        this.defaultChannel = null;
-      }
+      };
+      stopListening = () => {
+        this.off('stateChange', onStateChange);
+      };
 
-      // Force close connection
-      if (this.connection) {
-        try {
-          await this.connection.close().catch(() => {
-            /* ignore close errors */
-          });
-        } catch (error) {
-          logger.debug('Error closing connection', 'RabbitMQClient.forceCleanup', {
-            error: this.formatError(error),
-          });
-        }
-        this.connection = null;
-      }
+      this.on('stateChange', onStateChange);
+    });
 
-      logger.debug('Force cleanup completed', 'RabbitMQClient.forceCleanup');
-    } catch (error) {
-      logger.warn('Error during force cleanup', 'RabbitMQClient.forceCleanup', {
-        error: this.formatError(error),
-      });
-    }
+    return this.withAbort(outcome, signal, 'connect', () => stopListening());
   }
 
   /**
-   * Checks if a connection is open and healthy
+   * Moves the connection to a new state and emits `stateChange`. Transitions not listed in
+   * CONNECTION_STATE_TRANSITIONS are ignored.
    *
    * @private
-   * @param {Connection | null} connection - Connection to check
-   * @returns {boolean} True if connection is open
+   * @param {ConnectionState} to - New state
+   * @param {string} [reason] - Why the state changes, e.g. an error message
+   * @returns {boolean} False if the transition is not allowed from the current state
    */
-  private isConnectionOpen(connection: Connection | null): boolean {
-    if (!connection) {
-      logger.trace('Connection check: null connection', 'RabbitMQClient.isConnectionOpen');
+  private setState(to: ConnectionState, reason?: string): boolean {
+    const from = this.state;
+    if (from === to) {
+      return true;
+    }
+    // eslint-disable-next-line security/detect-object-injection
+    if (!CONNECTION_STATE_TRANSITIONS[from].includes(to)) {
+      logger.warn('Ignoring invalid connection state transition', 'RabbitMQClient.setState', {
+        from,
+        to,
+        reason,
+        role: this.role,
+      });
       return false;
     }
 
-    try {
-      const conn = connection as Connection & {
-        connection: { stream: { readable: boolean; writable: boolean } };
-      };
+    this.state = to;
+    logger.debug('Connection state changed', 'RabbitMQClient.setState', {
+      from,
+      to,
+      reason,
+      role: this.role,
+    });
+    this.emit('stateChange', from, to, reason, this.role);
+    return true;
+  }
 
-      const isOpen = Boolean(
-        conn.connection &&
-          !(connection as unknown as { closing: boolean; closed: boolean }).closing &&
-          !(connection as unknown as { closing: boolean; closed: boolean }).closed &&
-          conn.connection.stream?.readable &&
-          conn.connection.stream?.writable,
-      );
+  /**
+   * Whether the connection is established, blocked or not
+   *
+   * @private
+   * @returns {boolean} True in the `connected` and `blocked` states
+   */
+  private isEstablished(): boolean {
+    return this.state === 'connected' || this.state === 'blocked';
+  }
 
-      logger.trace('Connection status checked', 'RabbitMQClient.isConnectionOpen', { isOpen });
-      return isOpen;
-    } catch (error) {
-      logger.debug('Error checking connection state', 'RabbitMQClient.isConnectionOpen', {
-        error: this.formatError(error),
-      });
-      return false;
+  /**
+   * Waits for this client's connection and, with `separateConnections`, for the consuming
+   * connection as well
+   *
+   * @private
+   * @param {Promise<void>} connection - This client's connection promise
+   * @param {AbortSignal} [signal] - Signal passed on to the consuming connection
+   * @returns {Promise<void>} Promise that resolves when both connections are established
+   */
+  private async withConsumerConnection(
+    connection: Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (!this.consumerClient) {
+      return connection;
     }
+
+    await Promise.all([connection, this.consumerClient.connect({ signal })]);
   }
 
   /**
-   * Closes the RabbitMQ client and all associated resources
-   *
-   * @public
-   * @returns {Promise<void>} Promise that resolves when client is closed
+   * Establishes the actual connection to RabbitMQ with retry logic
    *
-   * @example
-   * ```typescript
-   * await client.close();
-   * console.log('Client closed successfully');
-   * ```
+   * @private
+   * @param {() => void} resolve - Promise resolve function
+   * @param {(error: Error) => void} reject - Promise reject function
+   * @param {AbortSignal} [signal] - Stops trying further nodes when aborted
+   * @returns {Promise<void>}
    */
-  public async close(): Promise<void> {
+  private async establishConnection(
+    resolve: () => void,
+    reject: (error: Error) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
     try {
-      logger.info('Initiating RabbitMQ connection shutdown', 'RabbitMQClient.close');
+      logger.info('Establishing RabbitMQ connection', 'RabbitMQClient.establishConnection', {
+        reconnectAttempts: this.reconnectAttempts,
+        maxAttempts: this.options.maxReconnectAttempts,
+      });
 
-      this.reconnecting = false;
+      this.connection = await this.tryNextClusterNode(
+        this.options.connectionTimeout,
+        CONSTANTS.MAXIMUM_INITIAL_CONNECTION_RETRIES,
+        this.options.retryPolicy ? this.retryPolicy : undefined,
+        signal,
+      );
 
-      // Clear all interval timers
-      for (const intervalId of this.intervalTimers) {
-        clearInterval(intervalId);
-      }
-      this.intervalTimers.clear();
-      logger.debug('Cleared all interval timers', 'RabbitMQClient.close');
+      // Setup connection monitoring
+      this.setupConnectionMonitoring();
+      this.setupConnectionHandlers();
+      await this.setupChannels();
 
-      if (this.messageBatch.timer) {
-        clearTimeout(this.messageBatch.timer);
-        this.messageBatch.timer = null;
-        logger.debug('Cleared message batch timer', 'RabbitMQClient.close');
-      }
-
-      // Close all channels in the pool
-      for (const channel of this.channelPool.channels) {
-        try {
-          if (this.isChannelOpen(channel)) {
-            await channel.close();
-            logger.trace('Closed pool channel', 'RabbitMQClient.close');
-          }
-        } catch (err) {
-          logger.error('Error closing channel from pool', 'RabbitMQClient.close', {
-            error: this.formatError(err),
-          });
-          this.emit('channelCloseError', err);
-        }
-      }
-      this.channelPool.channels = [];
-      this.channelPool.inUse.clear();
-
-      if (this.defaultChannel) {
-        try {
-          await this.defaultChannel.close();
-          this.emit('channelClosed');
-          logger.debug('Closed default channel', 'RabbitMQClient.close');
-        } catch (err) {
-          logger.error('Error closing default channel', 'RabbitMQClient.close', {
-            error: this.formatError(err),
-          });
-          this.emit('channelCloseError', err);
-        }
-        this.defaultChannel = null;
-      }
+      this.resetCircuitBreakerState();
+      this.cleanupConnectionState();
 
-      if (this.connection) {
-        try {
-          await this.connection.close();
-          this.emit('connectionClosed');
-          logger.debug('Closed connection', 'RabbitMQClient.close');
-        } catch (err) {
-          logger.error('Error closing connection', 'RabbitMQClient.close', {
-            error: this.formatError(err),
-          });
-          this.emit('connectionCloseError', err);
-        }
-        this.connection = null;
-      }
+      logger.info(
+        'Successfully established RabbitMQ connection',
+        'RabbitMQClient.establishConnection',
+        {
+          url: this.currentNode,
+          vhost: this.options.vhost,
+          heartbeat: this.options.heartbeat,
+        },
+      );
 
-      logger.info('Successfully closed RabbitMQ connection', 'RabbitMQClient.close');
-      this.emit('closed');
+      this.setState(this.blockedState ? 'blocked' : 'connected');
+      this.emit('connected');
+      resolve();
     } catch (error) {
-      logger.error('Unexpected error during connection shutdown', 'RabbitMQClient.close', {
-        error: this.formatError(error),
-      });
-      throw error;
+      logger.error(
+        'Failed to establish RabbitMQ connection',
+        'RabbitMQClient.establishConnection',
+        {
+          error: this.formatError(error),
+          reconnectAttempts: this.reconnectAttempts,
+        },
+      );
+      this.handleConnectionError(error, reject);
     }
   }
 
   /**
-   * Checks if a channel is open and healthy
+   * Builds the socket options passed to amqplib for every connection attempt
    *
    * @private
-   * @param {Channel | ConfirmChannel | null} channel - Channel to check
-   * @returns {boolean} True if channel is open
+   * @param {number} [timeout] - Connection timeout in milliseconds, overridden by socketOptions.timeout
+   * @param {ConnectionPurpose} [purpose] - Purpose of the connection, used for its name
+   * @param {string} [url] - Node URL, whose descriptor overrides are layered on top
+   * @returns {Promise<ExtendedConnectOptions>} Socket options including TLS settings
    */
-  private isChannelOpen(channel: Channel | ConfirmChannel | null): boolean {
-    if (!channel) {
-      return false;
+  private async buildConnectOptions(
+    timeout?: number,
+    purpose: ConnectionPurpose = 'connection',
+    url?: string,
+  ): Promise<ExtendedConnectOptions> {
+    const node = url ? this.nodeDescriptors.get(url) : undefined;
+    const sslSocketOptions = this.layerNodeTls(await this.getSslSocketOptions(), node);
+    const { socketOptions } = this.options;
+    // Credentials given on the node take precedence over the provider
+    const hasNodeCredentials = node?.username !== undefined || node?.password !== undefined;
+    if (hasNodeCredentials && purpose === 'connection') {
+      this.credentials = null;
     }
-    // Type assertion since the property exists but isn't typed
-    const isOpen = !(channel as unknown as { closed: boolean }).closed;
-    logger.trace('Channel status checked', 'RabbitMQClient.isChannelOpen', { isOpen });
-    return isOpen;
+    const credentials = hasNodeCredentials ? null : await this.resolveCredentials(purpose);
+
+    return {
+      heartbeat: this.options.heartbeat,
+      vhost: node?.vhost ?? this.options.vhost,
+      timeout: socketOptions?.timeout ?? timeout,
+      noDelay: socketOptions?.noDelay,
+      clientProperties: this.buildClientProperties(purpose),
+      ...(credentials && {
+        credentials: amqplib.credentials.plain(
+          credentials.username ?? '',
+          credentials.token ?? credentials.password ?? '',
+        ),
+      }),
+      ...sslSocketOptions,
+    };
   }
 
   /**
-   * Ensures the default channel is available and connection is healthy
+   * Returns what to pass to amqplib to connect to a node: the URL itself, or connection
+   * options built from the node's descriptor
    *
    * @private
-   * @returns {void}
-   * @throws {Error} If not connected or channel is not available
+   * @param {string} url - Node URL
+   * @returns {string | Options.Connect} Connection URL or options
    */
-  private ensureChannel(): void {
-    if (
-      !this.defaultChannel ||
-      !this.connection ||
-      !this.isConnectionOpen(this.connection) ||
-      !this.isChannelOpen(this.defaultChannel)
-    ) {
-      const error = new Error('Not connected to RabbitMQ. Call connect() first.');
-      logger.error('Channel check failed', 'RabbitMQClient.ensureChannel', {
-        error: error.message,
-        hasConnection: !!this.connection,
-        hasDefaultChannel: !!this.defaultChannel,
-        connectionOpen: this.connection ? this.isConnectionOpen(this.connection) : false,
-        channelOpen: this.defaultChannel ? this.isChannelOpen(this.defaultChannel) : false,
-      });
-      throw error;
+  private getConnectTarget(url: string): string | Options.Connect {
+    const node = this.nodeDescriptors.get(url);
+    if (!node) {
+      return url;
     }
+
+    return {
+      protocol: node.protocol ?? 'amqp',
+      hostname: node.hostname,
+      port: node.port,
+      username: node.username,
+      password: node.password,
+      vhost: node.vhost ?? this.options.vhost,
+      heartbeat: this.options.heartbeat,
+    };
   }
 
   /**
-   * Ensures error is properly typed as Error instance
+   * Layers a node's TLS overrides on top of the global TLS socket options
    *
    * @private
-   * @param {unknown} error - The error to check
-   * @returns {Error} Error instance
+   * @param {SslSocketOptions} sslSocketOptions - Global TLS socket options
+   * @param {NodeDescriptor} [node] - Node descriptor
+   * @returns {SslSocketOptions} TLS socket options for the node
    */
-  private ensureError(error: unknown): Error {
-    return error instanceof Error ? error : new Error(String(error));
+  private layerNodeTls(
+    sslSocketOptions: SslSocketOptions,
+    node?: NodeDescriptor,
+  ): SslSocketOptions {
+    const tls = node?.tls;
+    if (!tls) {
+      return sslSocketOptions;
+    }
+
+    return {
+      ...sslSocketOptions,
+      ...(tls.validate !== undefined && { rejectUnauthorized: tls.validate }),
+      ...(tls.ca && { ca: tls.ca }),
+      ...(tls.cert && { cert: tls.cert }),
+      ...(tls.key && { key: tls.key }),
+      ...(tls.passphrase && { passphrase: tls.passphrase }),
+      ...(tls.servername && { servername: tls.servername }),
+    };
   }
 
   /**
-   * Handles errors with logging and metrics updates
+   * Fetches credentials from `credentialsProvider`, if configured. Credentials fetched
+   * for a client connection are kept to schedule their refresh.
    *
    * @private
-   * @param {unknown} error - The error that occurred
-   * @returns {Promise<void>}
+   * @param {ConnectionPurpose} purpose - Purpose of the connection
+   * @returns {Promise<Credentials | null>} Credentials, or null to use those in the URL
+   * @throws {ConfigurationError} If the provider fails
    */
-  private async handleError(error: unknown): Promise<void> {
-    const err = this.ensureError(error);
-    this.metrics.errors++;
-
-    // Enhanced error logging
-    logger.error(`RabbitMQ Error: ${err.message}`, 'RabbitMQClient.handleError', {
-      error: this.formatError(err),
-      stack: err.stack,
-      metrics: this.metrics,
-      connectionState: {
-        isConnected: Boolean(this.connection),
-        isReconnecting: this.reconnecting,
-        reconnectAttempts: this.reconnectAttempts,
-        circuitBreakerState: this.circuitBreaker,
-      },
-    });
+  private async resolveCredentials(purpose: ConnectionPurpose): Promise<Credentials | null> {
+    if (!this.options.credentialsProvider) {
+      return null;
+    }
 
-    this.emit('error', err);
+    let credentials: Credentials;
+    try {
+      credentials = await this.options.credentialsProvider();
+    } catch (error) {
+      const configError = new ConfigurationError('Credentials provider failed', {
+        error: this.formatError(error),
+      });
+      logger.error('Failed to resolve credentials', 'RabbitMQClient.resolveCredentials', {
+        error: configError.message,
+        cause: this.formatError(error),
+      });
+      throw configError;
+    }
 
-    if (!this.reconnecting) {
-      logger.debug('Initiating reconnection due to error', 'RabbitMQClient.handleError');
-      await this.reconnect();
+    if (purpose === 'connection') {
+      this.credentials = credentials;
     }
+    logger.debug('Resolved credentials from provider', 'RabbitMQClient.resolveCredentials', {
+      purpose,
+      username: credentials.username,
+      expiresAt: credentials.expiresAt,
+    });
+    return credentials;
   }
 
   /**
-   * Publishes a batch of messages to RabbitMQ using confirm channel
-   *
-   * @public
-   * @param {MessageBatch['messages']} messages - Array of messages to publish
-   * @returns {Promise<void>} Promise that resolves when all messages are published
-   * @throws {Error} If channel is not available or publishing fails
+   * Schedules a refresh of the live connection's secret shortly before the current
+   * credentials expire
    *
-   * @example
-   * ```typescript
-   * const messages = [
-   *   {
-   *     exchange: 'my-exchange',
-   *     routingKey: 'routing.key',
-   *     content: Buffer.from('message 1'),
-   *     options: {}
-   *   },
-   *   {
-   *     exchange: 'my-exchange',
-   *     routingKey: 'routing.key',
-   *     content: Buffer.from('message 2'),
-   *     options: {}
-   *   }
-   * ];
-   * await client.publishBatch(messages);
-   * ```
+   * @private
+   * @param {number} [delay] - Explicit delay in milliseconds, used to retry a failed refresh
+   * @param {number} [minDelay] - Shortest delay, so credentials already due for a refresh are
+   * not refreshed in a loop
+   * @returns {void}
    */
-  public async publishBatch(messages: MessageBatch['messages']): Promise<void> {
-    logger.debug('Publishing message batch', 'RabbitMQClient.publishBatch', {
-      messageCount: messages.length,
+  private scheduleCredentialsRefresh(delay?: number, minDelay = 0): void {
+    if (this.credentialsRefreshTimer) {
+      clearTimeout(this.credentialsRefreshTimer);
+      this.credentialsRefreshTimer = null;
+    }
+
+    const expiresAt = this.credentials?.expiresAt;
+    if (!this.options.credentialsProvider || !expiresAt) {
+      return;
+    }
+
+    const margin =
+      this.options.credentialsRefreshMargin ?? CONSTANTS.DEFAULT_CREDENTIALS_REFRESH_MARGIN;
+    const refreshIn = delay ?? Math.max(minDelay, expiresAt.getTime() - Date.now() - margin);
+
+    logger.debug('Scheduled credentials refresh', 'RabbitMQClient.scheduleCredentialsRefresh', {
+      expiresAt,
+      refreshIn,
     });
+    this.credentialsRefreshTimer = setTimeout(() => {
+      void this.refreshCredentials();
+    }, refreshIn);
+    this.credentialsRefreshTimer.unref();
+  }
 
-    this.ensureChannel();
-    if (!this.defaultChannel) {
-      const error = new Error('Channel not available');
-      logger.error('Batch publish failed - no channel', 'RabbitMQClient.publishBatch', {
-        error: error.message,
-      });
-      throw error;
+  /**
+   * Fetches fresh credentials and updates the secret of the live connection using the
+   * AMQP `update-secret` method, so the connection outlives the original credentials.
+   * Failed refreshes are retried until the credentials expire.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async refreshCredentials(): Promise<void> {
+    this.credentialsRefreshTimer = null;
+    const connection = this.connection;
+    if (!connection) {
+      return;
     }
 
     try {
-      for (const msg of messages) {
-        await new Promise<void>((resolve, reject) => {
-          this.defaultChannel?.publish(
-            msg.exchange,
-            msg.routingKey,
-            msg.content,
-            msg.options,
-            (err) => {
-              if (err) {
-                logger.error('Message publish failed in batch', 'RabbitMQClient.publishBatch', {
-                  error: this.formatError(err),
-                  exchange: msg.exchange,
-                  routingKey: msg.routingKey,
-                });
-                reject(this.ensureError(err));
-              } else {
-                logger.trace('Message published in batch', 'RabbitMQClient.publishBatch', {
-                  exchange: msg.exchange,
-                  routingKey: msg.routingKey,
-                });
-                resolve();
-              }
-            },
-          );
+      const previousSecret = this.credentials?.token ?? this.credentials?.password ?? '';
+      const credentials = await this.resolveCredentials('connection');
+      if (!credentials) {
+        return;
+      }
+      const secret = credentials.token ?? credentials.password ?? '';
+      if (secret === previousSecret) {
+        logger.debug(
+          'Credentials unchanged, skipping secret update',
+          'RabbitMQClient.refreshCredentials',
+          { expiresAt: credentials.expiresAt },
+        );
+      } else {
+        await connection.updateSecret(Buffer.from(secret), 'credentials refresh');
+        logger.info('Refreshed connection credentials', 'RabbitMQClient.refreshCredentials', {
+          expiresAt: credentials.expiresAt,
         });
+        this.emit('credentialsRefreshed');
       }
-      this.metrics.messagesSent += messages.length;
-      logger.info('Batch publish completed', 'RabbitMQClient.publishBatch', {
-        messageCount: messages.length,
-        totalSent: this.metrics.messagesSent,
-      });
+      // A provider may hand out cached credentials that are already due for a refresh
+      this.scheduleCredentialsRefresh(undefined, CONSTANTS.CREDENTIALS_REFRESH_RETRY_DELAY);
     } catch (error) {
-      logger.error('Batch publish failed', 'RabbitMQClient.publishBatch', {
-        error: this.formatError(error),
-        messageCount: messages.length,
+      const err = this.ensureError(error);
+      logger.warn('Failed to refresh connection credentials', 'RabbitMQClient.refreshCredentials', {
+        error: err.message,
       });
-      await this.handleError(error);
-      throw this.ensureError(error);
+      this.emit('credentialsRefreshFailed', err);
+
+      const expiresAt = this.credentials?.expiresAt;
+      if (expiresAt && expiresAt.getTime() > Date.now() && this.connection === connection) {
+        this.scheduleCredentialsRefresh(CONSTANTS.CREDENTIALS_REFRESH_RETRY_DELAY);
+      }
     }
   }
 
   /**
-   * Performs a health check on the RabbitMQ connection and channels
-   *
-   * @public
-   * @returns {Promise<boolean>} Promise resolving to true if healthy
+   * Builds the AMQP client properties identifying this connection to the broker
    *
-   * @example
-   * ```typescript
-   * const isHealthy = await client.healthCheck();
-   * if (!isHealthy) {
-   *   console.log('RabbitMQ client is not healthy');
-   * }
-   * ```
+   * @private
+   * @param {ConnectionPurpose} purpose - Purpose of the connection
+   * @returns {Record<string, unknown>} Client properties for the handshake
    */
-  public async healthCheck(): Promise<boolean> {
-    logger.trace('Performing health check', 'RabbitMQClient.healthCheck');
+  private buildClientProperties(purpose: ConnectionPurpose): Record<string, unknown> {
+    const { connectionName, clientProperties } = this.options;
+    const baseName =
+      connectionName ?? clientProperties?.applicationName ?? `${hostname()}:${process.pid}`;
+    let name = baseName;
+    if (purpose === 'healthProbe') {
+      name = `${baseName}${CONSTANTS.HEALTH_PROBE_CONNECTION_SUFFIX}`;
+    } else if (this.role !== 'shared') {
+      name = `${baseName} (${this.role})`;
+    }
 
-    try {
-      if (!this.connection || !this.isConnectionOpen(this.connection)) {
-        logger.debug('Health check failed - no connection', 'RabbitMQClient.healthCheck');
-        return false;
-      }
+    const properties: Record<string, unknown> = {
+      connection_name: name,
+      hostname: hostname(),
+      pid: process.pid,
+      capabilities: {
+        ...DEFAULT_CLIENT_CAPABILITIES,
+        ...clientProperties?.capabilities,
+      },
+    };
 
-      if (!this.defaultChannel || !this.isChannelOpen(this.defaultChannel)) {
-        logger.debug('Health check failed - no default channel', 'RabbitMQClient.healthCheck');
-        return false;
-      }
+    if (clientProperties?.applicationName) {
+      properties.product = clientProperties.applicationName;
+    }
+    if (clientProperties?.applicationVersion) {
+      properties.version = clientProperties.applicationVersion;
+    }
 
-      // Test channel by doing a lightweight operation
-      await this.defaultChannel.assertQueue('healthCheckQueue');
-      await this.defaultChannel.checkQueue('healthCheckQueue');
-      await this.defaultChannel.deleteQueue('healthCheckQueue');
+    return properties;
+  }
 
-      logger.trace('Health check passed', 'RabbitMQClient.healthCheck');
-      return true;
-    } catch (err) {
-      logger.error('Health check failed', 'RabbitMQClient.healthCheck', {
-        error: this.formatError(err),
-      });
-      return false;
+  /**
+   * Returns the TLS socket options, loading certificate files on first use
+   *
+   * @private
+   * @returns {Promise<SslSocketOptions>} TLS socket options, empty when SSL is disabled
+   */
+  private async getSslSocketOptions(): Promise<SslSocketOptions> {
+    if (!this.options.ssl?.enabled) {
+      return {};
+    }
+
+    if (!this.sslSocketOptions) {
+      this.sslSocketOptions = await this.loadSslSocketOptions();
     }
+
+    return this.sslSocketOptions;
   }
 
   /**
-   * Gets current performance and operational metrics
-   *
-   * @public
-   * @returns {Metrics} Copy of current metrics
+   * Resolves SSL configuration into TLS socket options, reading any configured files
    *
-   * @example
-   * ```typescript
-   * const metrics = client.getMetrics();
-   * console.log(`Messages sent: ${metrics.messagesSent}`);
-   * console.log(`Messages received: ${metrics.messagesReceived}`);
-   * console.log(`Errors: ${metrics.errors}`);
-   * ```
+   * @private
+   * @returns {Promise<SslSocketOptions>} TLS socket options
+   * @throws {ConfigurationError} If a certificate file cannot be read
    */
-  public getMetrics(): Metrics {
-    logger.trace('Getting current metrics', 'RabbitMQClient.getMetrics', this.metrics);
-    return { ...this.metrics };
+  private async loadSslSocketOptions(): Promise<SslSocketOptions> {
+    const ssl = this.options.ssl;
+    if (!ssl?.enabled) {
+      return {};
+    }
+
+    const readSslFile = async (path: string): Promise<Buffer> => {
+      try {
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        return await readFile(path);
+      } catch (error) {
+        throw new ConfigurationError(`Failed to read SSL file: ${path}`, {
+          path,
+          cause: this.formatError(error),
+        });
+      }
+    };
+
+    const ca: (string | Buffer)[] = [...(ssl.ca ?? [])];
+    for (const caPath of ssl.caPaths ?? []) {
+      ca.push(await readSslFile(caPath));
+    }
+
+    const socketOptions: SslSocketOptions = {
+      rejectUnauthorized: ssl.validate ?? true,
+    };
+    if (ca.length > 0) {
+      socketOptions.ca = ca;
+    }
+    if (ssl.certPath || ssl.cert) {
+      socketOptions.cert = ssl.certPath ? await readSslFile(ssl.certPath) : ssl.cert;
+    }
+    if (ssl.keyPath || ssl.key) {
+      socketOptions.key = ssl.keyPath ? await readSslFile(ssl.keyPath) : ssl.key;
+    }
+    if (ssl.passphrase) {
+      socketOptions.passphrase = ssl.passphrase;
+    }
+    if (ssl.servername) {
+      socketOptions.servername = ssl.servername;
+    }
+
+    if (!socketOptions.rejectUnauthorized) {
+      logger.warn(
+        'SSL server certificate validation is disabled',
+        'RabbitMQClient.loadSslSocketOptions',
+      );
+    }
+
+    logger.debug('Loaded SSL socket options', 'RabbitMQClient.loadSslSocketOptions', {
+      caCount: ca.length,
+      hasCert: !!socketOptions.cert,
+      hasKey: !!socketOptions.key,
+      rejectUnauthorized: socketOptions.rejectUnauthorized,
+    });
+
+    return socketOptions;
   }
 
   /**
-   * Performs graceful shutdown of the RabbitMQ client
+   * Reloads SSL certificates from the configured file paths
+   *
+   * The current connection keeps using the certificates it was opened with; the
+   * reloaded certificates are used for every subsequent connection, reconnect and
+   * cluster health probe. If reading any file fails the previous certificates are kept.
    *
    * @public
-   * @returns {Promise<void>} Promise that resolves when shutdown is complete
+   * @returns {Promise<void>} Promise that resolves when certificates are reloaded
+   * @throws {ConfigurationError} If SSL is not enabled or a certificate file cannot be read
    *
    * @example
    * ```typescript
-   * await client.gracefulShutdown();
-   * console.log('Client shutdown gracefully');
+   * // After cert-manager rotates the mounted certificates
+   * await client.reloadSslCertificates();
    * ```
    */
-  public async gracefulShutdown(): Promise<void> {
+  public async reloadSslCertificates(): Promise<void> {
+    if (!this.options.ssl?.enabled) {
+      const error = new ConfigurationError('SSL is not enabled');
+      logger.error('Cannot reload SSL certificates', 'RabbitMQClient.reloadSslCertificates', {
+        error: error.message,
+      });
+      throw error;
+    }
+
     try {
-      logger.info('Starting graceful shutdown...', 'RabbitMQClient.gracefulShutdown');
+      this.sslSocketOptions = await this.loadSslSocketOptions();
+      logger.info('SSL certificates reloaded', 'RabbitMQClient.reloadSslCertificates');
+    } catch (error) {
+      logger.error('Failed to reload SSL certificates', 'RabbitMQClient.reloadSslCertificates', {
+        error: this.formatError(error),
+      });
+      throw error;
+    }
+  }
 
-      if (this.shutdownInProgress) {
-        logger.info('Shutdown already in progress', 'RabbitMQClient.gracefulShutdown');
-        return;
-      }
+  /**
+   * Sets up connection monitoring and health checks
+   *
+   * @private
+   * @returns {void}
+   */
+  private setupConnectionMonitoring(): void {
+    if (!this.connection) {
+      logger.warn(
+        'Cannot setup monitoring - no connection',
+        'RabbitMQClient.setupConnectionMonitoring',
+      );
+      return;
+    }
 
-      this.shutdownInProgress = true;
+    logger.debug('Setting up connection monitoring', 'RabbitMQClient.setupConnectionMonitoring');
 
-      // Stop accepting new connections/channels immediately
-      this.reconnecting = false;
+    // A new connection starts unblocked; the broker notifies it again if an alarm is still active
+    if (this.blockedState) {
+      this.blockedState = null;
+      this.releaseBlockedPublishes();
+    }
 
-      // Clear all interval timers
-      for (const intervalId of this.intervalTimers) {
-        clearInterval(intervalId);
+    // Monitor connection blocked/unblocked states
+    const connection = this.connection;
+    connection.on('blocked', (reason: string) => {
+      if (connection !== this.connection) {
+        return;
       }
-      this.intervalTimers.clear();
+      logger.warn('Connection blocked by broker', 'RabbitMQClient.setupConnectionMonitoring', {
+        reason,
+        role: this.role,
+      });
+      this.blockedState = { reason, since: new Date() };
+      this.setState('blocked', reason);
+      this.emit('blocked', reason, this.role);
+    });
 
-      // Clear any pending timers
-      if (this.messageBatch.timer) {
-        clearTimeout(this.messageBatch.timer);
-        this.messageBatch.timer = null;
+    connection.on('unblocked', () => {
+      if (connection !== this.connection) {
+        return;
       }
+      logger.info('Connection unblocked by broker', 'RabbitMQClient.setupConnectionMonitoring', {
+        role: this.role,
+        blockedFor: this.blockedState ? Date.now() - this.blockedState.since.getTime() : 0,
+        heldPublishes: this.blockedPublishes.length,
+      });
+      this.blockedState = null;
+      this.setState('connected', 'unblocked');
+      this.releaseBlockedPublishes();
+      this.emit('unblocked', this.role);
+    });
 
-      // Wait for in-flight messages with a shorter timeout
-      await this.waitForInFlightMessages(3000);
-
-      // Close channels and connection
-      logger.info('Closing channels and connection...', 'RabbitMQClient.gracefulShutdown');
-
-      // Close all channels first
-      for (const channel of this.channelPool.channels) {
+    // Periodic connection health check
+    const healthCheckInterval =
+      this.options.healthCheckInterval ?? CONSTANTS.DEFAULT_HEALTH_CHECK_INTERVAL;
+    const healthCheckRunning =
+      this.healthCheckTimer !== null && this.intervalTimers.has(this.healthCheckTimer);
+    if (healthCheckInterval > 0 && !healthCheckRunning) {
+      const healthCheckIntervalId = setInterval(async () => {
         try {
-          if (this.isChannelOpen(channel)) {
-            await channel.close();
+          const isHealthy = await this.checkConnectionHealth();
+          if (!isHealthy && this.isEstablished()) {
+            logger.warn(
+              'Health check failed, initiating reconnection',
+              'RabbitMQClient.setupConnectionMonitoring',
+            );
+            await this.reconnect('health check failed');
           }
         } catch (error) {
-          logger.debug('Error closing channel', 'RabbitMQClient.gracefulShutdown', {
+          logger.error('Health check error', 'RabbitMQClient.setupConnectionMonitoring', {
             error: this.formatError(error),
           });
         }
-      }
-      this.channelPool.channels = [];
-      this.channelPool.inUse.clear();
+      }, healthCheckInterval);
+      healthCheckIntervalId.unref();
+      this.intervalTimers.add(healthCheckIntervalId);
+      this.healthCheckTimer = healthCheckIntervalId;
+    }
 
-      // Close default channel
-      if (this.defaultChannel) {
-        try {
-          await this.defaultChannel.close();
-        } catch (error) {
-          logger.debug('Error closing default channel', 'RabbitMQClient.gracefulShutdown', {
-            error: this.formatError(error),
-          });
-        }
-        this.defaultChannel = null;
-      }
+    // Monitor cluster nodes health
+    this.startNodeHealthCheck();
 
-      // Finally close the connection
-      if (this.connection) {
-        try {
-          await this.connection.close();
-          this.connection = null;
-          logger.info('Connection closed successfully', 'RabbitMQClient.gracefulShutdown');
-        } catch (error) {
-          logger.debug('Error closing connection', 'RabbitMQClient.gracefulShutdown', {
-            error: this.formatError(error),
-          });
-        }
-      }
+    logger.debug(
+      'Connection monitoring setup completed',
+      'RabbitMQClient.setupConnectionMonitoring',
+    );
+  }
 
-      logger.info('Graceful shutdown completed', 'RabbitMQClient.gracefulShutdown');
-    } catch (error) {
-      logger.error('Error during graceful shutdown', 'RabbitMQClient.gracefulShutdown', {
-        error: this.formatError(error),
-      });
+  /**
+   * Sets up connection event handlers
+   *
+   * @private
+   * @returns {void}
+   * @throws {Error} If connection is not established
+   */
+  private setupConnectionHandlers(): void {
+    if (!this.connection) {
+      const error = new Error('Connection not established');
+      logger.error(
+        'Cannot setup handlers - connection not established',
+        'RabbitMQClient.setupConnectionHandlers',
+        {
+          error: error.message,
+        },
+      );
       throw error;
-    } finally {
-      this.shutdownInProgress = false;
     }
+
+    logger.debug('Setting up connection event handlers', 'RabbitMQClient.setupConnectionHandlers');
+
+    // Events from a connection that was replaced, e.g. while it drains after a fail-back,
+    // must not trigger a reconnect
+    const connection = this.connection;
+
+    connection.on('error', (err: Error) => {
+      if (connection !== this.connection) {
+        logger.debug(
+          'Ignoring error from replaced connection',
+          'RabbitMQClient.setupConnectionHandlers',
+          { error: this.formatError(err) },
+        );
+        return;
+      }
+      logger.error(
+        `RabbitMQ connection error: ${err.message}`,
+        'RabbitMQClient.setupConnectionHandlers',
+        {
+          error: this.formatError(err),
+          stack: err.stack,
+        },
+      );
+      this.emit('connectionError', err);
+      void this.reconnect(err.message);
+    });
+
+    connection.on('close', () => {
+      if (connection !== this.connection) {
+        logger.debug('Replaced connection closed', 'RabbitMQClient.setupConnectionHandlers');
+        return;
+      }
+      logger.warn('RabbitMQ connection closed', 'RabbitMQClient.setupConnectionHandlers', {
+        state: this.state,
+      });
+      this.emit('connectionClosed');
+      void this.reconnect('connection closed');
+    });
+
+    logger.debug(
+      'Connection event handlers setup completed',
+      'RabbitMQClient.setupConnectionHandlers',
+    );
   }
 
   /**
-   * Waits for in-flight messages to complete processing
+   * Sets up channels including default channel and channel pool
    *
    * @private
-   * @param {number} maxWaitTime - Maximum time to wait in milliseconds
    * @returns {Promise<void>}
+   * @throws {Error} If connection is not established
    */
-  private async waitForInFlightMessages(maxWaitTime = 5000): Promise<void> {
-    const startTime = Date.now();
-    logger.info(
-      'Waiting for in-flight messages to complete...',
-      'RabbitMQClient.waitForInFlightMessages',
-    );
+  private async setupChannels(): Promise<void> {
+    if (!this.connection) {
+      const error = new Error('Connection not established');
+      logger.error('Cannot setup channels - no connection', 'RabbitMQClient.setupChannels', {
+        error: error.message,
+      });
+      throw error;
+    }
 
-    return new Promise((resolve) => {
-      const checkMessages = (): void => {
-        const timeElapsed = Date.now() - startTime;
+    logger.debug('Setting up channels', 'RabbitMQClient.setupChannels');
 
-        if (timeElapsed >= maxWaitTime) {
-          logger.warn(
-            'Max wait time reached for in-flight messages',
-            'RabbitMQClient.waitForInFlightMessages',
-          );
-          resolve();
-          return;
-        }
+    this.defaultChannel = await this.connection.createConfirmChannel();
+    await this.setupDefaultChannel();
+    await this.initializeChannelPool();
 
-        // Check if there are any messages being processed
-        if (this.metrics.messagesSent === this.metrics.messagesReceived) {
-          logger.info('All in-flight messages completed', 'RabbitMQClient.waitForInFlightMessages');
-          resolve();
-          return;
+    // Add channel recovery logic
+    if (!this.channelRecoveryTimer || !this.intervalTimers.has(this.channelRecoveryTimer)) {
+      const channelRecoveryIntervalId = setInterval(async () => {
+        try {
+          await this.checkAndRecoverChannels();
+        } catch (error) {
+          logger.error('Channel recovery error', 'RabbitMQClient.setupChannels', {
+            error: this.formatError(error),
+          });
         }
+      }, 5000); // Check every 5 seconds
+      channelRecoveryIntervalId.unref();
+      this.intervalTimers.add(channelRecoveryIntervalId);
+      this.channelRecoveryTimer = channelRecoveryIntervalId;
+    }
+    this.startPoolEviction();
 
-        // Check again after 100ms
-        setTimeout(checkMessages, 100);
-      };
-
-      checkMessages();
+    logger.info('Channels setup completed', 'RabbitMQClient.setupChannels', {
+      defaultChannelCreated: !!this.defaultChannel,
+      poolSize: this.channelPool.channels.length,
     });
   }
 
   /**
-   * Message acknowledgment helpers for manual ack mode
-   * @interface MessageActions
+   * Starts evicting idle pool channels when the pool may shrink below maxChannels
+   *
+   * @private
+   * @returns {void}
    */
-  private createMessageActions(msg: Message, queue: string): MessageActions {
-    let acknowledged = false;
-
-    return {
+  private startPoolEviction(): void {
+    if (
+      this.channelPool.minChannels >= this.channelPool.maxChannels ||
+      (this.poolEvictionTimer && this.intervalTimers.has(this.poolEvictionTimer))
+    ) {
+      return;
+    }
+
+    const interval = Math.min(
+      this.options.poolConfig?.idleTimeout ?? CONSTANTS.DEFAULT_POOL_IDLE_TIMEOUT,
+      CONSTANTS.POOL_EVICTION_INTERVAL,
+    );
+    const poolEvictionIntervalId = setInterval(async () => {
+      try {
+        await this.evictIdleChannels();
+      } catch (error) {
+        logger.error('Pool eviction error', 'RabbitMQClient.startPoolEviction', {
+          error: this.formatError(error),
+        });
+      }
+    }, interval);
+    poolEvictionIntervalId.unref();
+    this.intervalTimers.add(poolEvictionIntervalId);
+    this.poolEvictionTimer = poolEvictionIntervalId;
+  }
+
+  /**
+   * Checks and recovers failed channels
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async checkAndRecoverChannels(): Promise<void> {
+    if (!this.connection || !this.isConnectionOpen(this.connection)) {
+      logger.debug(
+        'Cannot recover channels - connection is not open',
+        'RabbitMQClient.checkAndRecoverChannels',
+      );
+      return;
+    }
+
+    const maxRetries = this.options.channelOptions?.maxRetries || 3;
+    const recoveryPolicy = this.options.retryPolicy
+      ? this.retryPolicy
+      : new FixedBackoff({ initialDelay: this.options.channelOptions?.retryDelay || 1000 });
+
+    try {
+      logger.trace('Checking channel health', 'RabbitMQClient.checkAndRecoverChannels');
+
+      // Check and recover default channel
+      if (!this.defaultChannel || !this.isChannelOpen(this.defaultChannel)) {
+        logger.info(
+          'Attempting to recover default channel',
+          'RabbitMQClient.checkAndRecoverChannels',
+        );
+        const startedAt = Date.now();
+        let previousDelay: number | null = null;
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+          try {
+            this.defaultChannel = await this.connection.createConfirmChannel();
+            await this.setupDefaultChannel();
+            logger.info(
+              'Successfully recovered default channel',
+              'RabbitMQClient.checkAndRecoverChannels',
+            );
+            break;
+          } catch (error) {
+            logger.error(
+              `Failed to recover default channel, attempt ${attempt + 1}/${maxRetries}`,
+              'RabbitMQClient.checkAndRecoverChannels',
+              {
+                error: this.formatError(error),
+              },
+            );
+            const delay: number | null =
+              attempt < maxRetries - 1
+                ? recoveryPolicy.nextDelay({
+                    attempt,
+                    elapsed: Date.now() - startedAt,
+                    previousDelay,
+                    error: this.ensureError(error),
+                  })
+                : null;
+            if (delay === null) {
+              throw error;
+            }
+            previousDelay = delay;
+            await new Promise((resolve) => setTimeout(resolve, delay));
+          }
+        }
+      }
+
+      // Check and recover pool channels
+      const recoveryPromises = this.channelPool.channels.map(async (_channel, index) => {
+        if (!this.isChannelOpen(_channel)) {
+          logger.info(
+            `Attempting to recover pool channel ${index}`,
+            'RabbitMQClient.checkAndRecoverChannels',
+          );
+
+          const startedAt = Date.now();
+          let previousDelay: number | null = null;
+
+          for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+              const newChannel = await this.recoverChannel(_channel);
+              if (newChannel) {
+                // The pool may have changed while the channel was recovered
+                const slot = this.channelPool.channels.indexOf(_channel);
+                if (slot === -1) {
+                  logger.debug(
+                    `Pool channel ${index} left the pool during recovery`,
+                    'RabbitMQClient.checkAndRecoverChannels',
+                  );
+                  await newChannel.close().catch(() => {
+                    /* ignore close errors */
+                  });
+                  break;
+                }
+                // eslint-disable-next-line security/detect-object-injection
+                this.channelPool.channels[slot] = newChannel;
+                if (this.channelPool.inUse.has(_channel)) {
+                  this.channelPool.inUse.delete(_channel);
+                  this.channelPool.inUse.add(newChannel);
+                }
+                logger.info(
+                  `Successfully recovered pool channel ${index}`,
+                  'RabbitMQClient.checkAndRecoverChannels',
+                );
+                this.serveChannelWaiters();
+                break;
+              }
+            } catch (error) {
+              logger.error(
+                `Failed to recover pool channel ${index}, attempt ${attempt + 1}`,
+                'RabbitMQClient.checkAndRecoverChannels',
+                {
+                  error: this.formatError(error),
+                },
+              );
+              const delay: number | null =
+                attempt < maxRetries - 1
+                  ? recoveryPolicy.nextDelay({
+                      attempt,
+                      elapsed: Date.now() - startedAt,
+                      previousDelay,
+                      error: this.ensureError(error),
+                    })
+                  : null;
+              if (delay === null) {
+                throw error;
+              }
+              previousDelay = delay;
+              await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+          }
+        }
+      });
+
+      await Promise.all(recoveryPromises);
+    } catch (error) {
+      logger.error(
+        'Channel recovery failed, initiating reconnection',
+        'RabbitMQClient.checkAndRecoverChannels',
+        {
+          error: this.formatError(error),
+        },
+      );
+      await this.reconnect('channel recovery failed');
+    }
+  }
+
+  /**
+   * Sets up the default confirm channel with prefetch and event handlers
+   *
+   * @private
+   * @param {ConfirmChannel | null} [channel] - Channel to set up, the current default channel
+   * by default
+   * @returns {Promise<void>}
+   * @throws {Error} If default channel is not established
+   */
+  private async setupDefaultChannel(
+    channel: ConfirmChannel | null = this.defaultChannel,
+  ): Promise<void> {
+    if (!channel) {
+      const error = new Error('Default channel not established');
+      logger.error(
+        'Cannot setup default channel - not created',
+        'RabbitMQClient.setupDefaultChannel',
+        {
+          error: error.message,
+        },
+      );
+      throw error;
+    }
+
+    logger.debug('Setting up default channel', 'RabbitMQClient.setupDefaultChannel', {
+      prefetchCount: this.options.prefetchCount,
+      prefetchGlobal: this.options.prefetchGlobal,
+    });
+
+    if (this.options.prefetchCount) {
+      await channel.prefetch(this.options.prefetchCount, this.options.prefetchGlobal);
+      logger.debug('Prefetch configured on default channel', 'RabbitMQClient.setupDefaultChannel', {
+        count: this.options.prefetchCount,
+        global: this.options.prefetchGlobal,
+      });
+    }
+
+    this.watchChannel(channel, 'default', {
+      onError: async () => {
+        if (channel !== this.defaultChannel) {
+          return;
+        }
+        await this.reconnect('default channel error').catch((error) =>
+          this.emit('error', this.ensureError(error)),
+        );
+      },
+    });
+
+    logger.debug('Default channel setup completed', 'RabbitMQClient.setupDefaultChannel');
+  }
+
+  /**
+   * Initializes the channel pool with configured number of channels
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @throws {Error} If connection is not established
+   */
+  private async initializeChannelPool(): Promise<void> {
+    if (!this.connection) {
+      const error = new Error('Connection not established');
+      logger.error(
+        'Cannot initialize channel pool - no connection',
+        'RabbitMQClient.initializeChannelPool',
+        {
+          error: error.message,
+        },
+      );
+      throw error;
+    }
+
+    const maxChannels = this.options.poolConfig?.maxChannels ?? 10;
+    const minChannels = this.options.poolConfig?.minChannels ?? maxChannels;
+    logger.debug('Initializing channel pool', 'RabbitMQClient.initializeChannelPool', {
+      minChannels,
+      maxChannels,
+    });
+    this.channelPool.maxChannels = maxChannels;
+    this.channelPool.minChannels = minChannels;
+
+    for (let i = 0; i < minChannels; i++) {
+      try {
+        await this.createPoolChannel();
+        logger.trace(
+          `Created pool channel ${i + 1}/${minChannels}`,
+          'RabbitMQClient.initializeChannelPool',
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to create pool channel ${i + 1}`,
+          'RabbitMQClient.initializeChannelPool',
+          {
+            error: this.formatError(error),
+          },
+        );
+        throw error;
+      }
+    }
+
+    logger.info('Channel pool initialized', 'RabbitMQClient.initializeChannelPool', {
+      channelCount: this.channelPool.channels.length,
+      minChannels,
+      maxChannels,
+    });
+    this.serveChannelWaiters();
+  }
+
+  /**
+   * Sets up the event handlers of a pool channel. Errors replace the channel in the pool.
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - New pool channel
+   * @returns {void}
+   */
+  private setupPoolChannel(channel: Channel | ConfirmChannel): void {
+    this.watchChannel(channel, 'pool', {
+      onError: (err) => this.handleChannelError(channel, err),
+    });
+  }
+
+  /**
+   * Assigns a managed channel its identifier and re-emits its events with it: errors as
+   * `channelError`, closing as `channelClosed`, returned messages as `messageReturned` and
+   * a drained write buffer as `channelDrain`.
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - New channel
+   * @param {string} kind - What the channel is used for, prefixed to its identifier
+   * @param {object} [handlers] - Channel-specific handling after the events are emitted
+   * @param {(err: Error) => unknown} [handlers.onError] - Called after a channel error
+   * @param {() => void} [handlers.onClose] - Called after the channel closed
+   * @returns {string} The channel identifier
+   */
+  private watchChannel(
+    channel: Channel | ConfirmChannel,
+    kind: 'default' | 'pool' | 'consumer' | 'fire-and-forget',
+    handlers: { onError?: (err: Error) => unknown; onClose?: () => void } = {},
+  ): string {
+    const channelId = `${kind}-${this.channelSequence.next++}`;
+    this.channelIds.set(channel, channelId);
+
+    channel.on('error', async (err: Error) => {
+      logger.error('Channel error', 'RabbitMQClient.watchChannel', {
+        error: this.formatError(err),
+        channelId,
+      });
+      this.emit('channelError', err, channelId);
+      await handlers.onError?.(err);
+    });
+
+    channel.on('close', () => {
+      logger.debug('Channel closed', 'RabbitMQClient.watchChannel', { channelId });
+      this.emit('channelClosed', channelId);
+      handlers.onClose?.();
+    });
+
+    channel.on('return', (msg) => {
+      logger.warn('Message returned by broker', 'RabbitMQClient.watchChannel', {
+        exchange: msg.fields.exchange,
+        routingKey: msg.fields.routingKey,
+        replyCode: msg.fields.replyCode,
+        replyText: msg.fields.replyText,
+        channelId,
+      });
+      this.emit('messageReturned', msg, channelId);
+    });
+
+    channel.on('drain', () => {
+      logger.debug('Channel drain event', 'RabbitMQClient.watchChannel', { channelId });
+      this.emit('channelDrain', channelId);
+    });
+
+    return channelId;
+  }
+
+  /**
+   * Gets the current circuit breaker state
+   *
+   * @public
+   * @returns {CircuitBreakerState} Current circuit breaker state
+   *
+   * @example
+   * ```typescript
+   * if (client.getCircuitBreakerState() === 'OPEN') {
+   *   console.log('RabbitMQ is unavailable, failing fast');
+   * }
+   * ```
+   */
+  public getCircuitBreakerState(): CircuitBreakerState {
+    this.refreshCircuitBreakerState();
+    return this.circuitBreaker.state;
+  }
+
+  /**
+   * Transitions an open circuit to half-open once the reset timeout has elapsed
+   *
+   * @private
+   * @returns {void}
+   */
+  private refreshCircuitBreakerState(): void {
+    if (this.circuitBreaker.state !== 'OPEN' || this.getCircuitBreakerRemainingTime() > 0) {
+      return;
+    }
+
+    this.circuitBreaker.state = 'HALF_OPEN';
+    this.circuitBreaker.halfOpenAttempts = 0;
+    logger.info('Circuit breaker half-open', 'RabbitMQClient.refreshCircuitBreakerState', {
+      failures: this.circuitBreaker.failures,
+      probeAttempts: this.options.circuitBreaker?.halfOpenMaxAttempts ?? 1,
+    });
+    this.emit('circuitHalfOpen');
+  }
+
+  /**
+   * Gets the time remaining until an open circuit allows probe attempts
+   *
+   * @private
+   * @returns {number} Remaining time in milliseconds, 0 if the circuit is not open
+   */
+  private getCircuitBreakerRemainingTime(): number {
+    if (this.circuitBreaker.state !== 'OPEN' || !this.circuitBreaker.openedAt) {
+      return 0;
+    }
+
+    const resetTimeout = this.options.circuitBreaker?.resetTimeout ?? 30000;
+    const elapsed = Date.now() - this.circuitBreaker.openedAt.getTime();
+    return Math.max(0, resetTimeout - elapsed);
+  }
+
+  /**
+   * Checks whether the circuit breaker allows an operation to proceed
+   *
+   * Connection attempts are allowed while closed, and while half-open up to the
+   * configured number of probe attempts. Other operations are only allowed while closed.
+   *
+   * @private
+   * @param {string} operation - Name of the guarded operation
+   * @returns {void}
+   * @throws {CircuitBreakerError} If the circuit breaker rejects the operation
+   */
+  private checkCircuitBreaker(operation: string): void {
+    this.refreshCircuitBreakerState();
+
+    const { state } = this.circuitBreaker;
+    if (state === 'CLOSED') {
+      return;
+    }
+
+    const isConnectionAttempt = operation === 'connect' || operation === 'reconnect';
+    const maxProbes = this.options.circuitBreaker?.halfOpenMaxAttempts ?? 1;
+    if (
+      state === 'HALF_OPEN' &&
+      isConnectionAttempt &&
+      this.circuitBreaker.halfOpenAttempts < maxProbes
+    ) {
+      this.circuitBreaker.halfOpenAttempts++;
+      logger.info('Circuit breaker allowing probe attempt', 'RabbitMQClient.checkCircuitBreaker', {
+        operation,
+        attempt: this.circuitBreaker.halfOpenAttempts,
+        maxProbes,
+      });
+      return;
+    }
+
+    const error = new CircuitBreakerError(
+      state === 'OPEN' ? 'Circuit breaker is open' : 'Circuit breaker is half-open',
+      {
+        operation,
+        state,
+        failures: this.circuitBreaker.failures,
+        lastFailure: this.circuitBreaker.lastFailure?.toISOString() ?? null,
+        retryAfterMs: this.getCircuitBreakerRemainingTime(),
+      },
+    );
+    logger.error('Operation blocked by circuit breaker', 'RabbitMQClient.checkCircuitBreaker', {
+      error: error.message,
+      operation,
+      state,
+      failures: this.circuitBreaker.failures,
+      lastFailure: this.circuitBreaker.lastFailure,
+    });
+    throw error;
+  }
+
+  /**
+   * Records a failed connection attempt and opens the circuit when needed
+   *
+   * @private
+   * @param {Error} error - The error that caused the failure
+   * @returns {void}
+   */
+  private recordCircuitBreakerFailure(error: Error): void {
+    this.circuitBreaker.failures++;
+    this.circuitBreaker.lastFailure = new Date();
+
+    const maxProbes = this.options.circuitBreaker?.halfOpenMaxAttempts ?? 1;
+    const shouldOpen =
+      this.circuitBreaker.state === 'HALF_OPEN'
+        ? this.circuitBreaker.halfOpenAttempts >= maxProbes
+        : this.circuitBreaker.state === 'CLOSED' &&
+          this.circuitBreaker.failures >= (this.options.circuitBreaker?.failureThreshold ?? 5);
+
+    if (shouldOpen) {
+      const previousState = this.circuitBreaker.state;
+      this.circuitBreaker.state = 'OPEN';
+      this.circuitBreaker.openedAt = new Date();
+      this.circuitBreaker.halfOpenAttempts = 0;
+      logger.warn('Circuit breaker opened', 'RabbitMQClient.recordCircuitBreakerFailure', {
+        previousState,
+        failures: this.circuitBreaker.failures,
+        resetTimeout: this.options.circuitBreaker?.resetTimeout ?? 30000,
+        error: this.formatError(error),
+      });
+      this.emit('circuitOpened', error);
+    }
+  }
+
+  /**
+   * Resets circuit breaker state after successful connection
+   *
+   * @private
+   * @returns {void}
+   */
+  private resetCircuitBreakerState(): void {
+    const previousState = this.circuitBreaker.state;
+    this.circuitBreaker.state = 'CLOSED';
+    this.circuitBreaker.failures = 0;
+    this.circuitBreaker.lastFailure = null;
+    this.circuitBreaker.openedAt = null;
+    this.circuitBreaker.halfOpenAttempts = 0;
+
+    if (previousState !== 'CLOSED') {
+      logger.info(
+        'Circuit breaker closed after successful connection',
+        'RabbitMQClient.resetCircuitBreakerState',
+        { previousState },
+      );
+      this.emit('circuitClosed');
+    }
+  }
+
+  /**
+   * Clears the promise of the finished connection attempt
+   *
+   * @private
+   * @returns {void}
+   */
+  private cleanupConnectionState(): void {
+    this.connectionPromise = null;
+    logger.debug('Connection state cleaned up', 'RabbitMQClient.cleanupConnectionState');
+  }
+
+  /**
+   * Handles connection errors and updates circuit breaker state
+   *
+   * @private
+   * @param {unknown} error - The error that occurred
+   * @param {(error: Error) => void} reject - Promise rejection function
+   * @returns {void}
+   */
+  private handleConnectionError(error: unknown, reject: (error: Error) => void): void {
+    // A cancelled attempt says nothing about the broker's health
+    if (!(error instanceof OperationAbortedError)) {
+      this.recordCircuitBreakerFailure(this.ensureError(error));
+    }
+
+    logger.error('Connection error handled', 'RabbitMQClient.handleConnectionError', {
+      error: this.formatError(error),
+      failures: this.circuitBreaker.failures,
+      circuitBreakerState: this.circuitBreaker.state,
+      threshold: this.options.circuitBreaker?.failureThreshold ?? 5,
+    });
+
+    this.cleanupConnectionState();
+    this.setState('failed', this.ensureError(error).message);
+    this.emit('connectionFailed', this.ensureError(error));
+    reject(this.ensureError(error));
+  }
+
+  /**
+   * Calculates the delay for the next reconnection attempt from the retry policy
+   *
+   * @private
+   * @param {number} [elapsed=0] - Milliseconds since the reconnection process started
+   * @param {number | null} [previousDelay=null] - Delay before the previous attempt
+   * @param {Error} [error] - Error of the previous attempt
+   * @returns {number | null} Delay in milliseconds, or null if the policy gives up
+   */
+  private calculateReconnectDelay(
+    elapsed = 0,
+    previousDelay: number | null = null,
+    error?: Error,
+  ): number | null {
+    const delay = this.retryPolicy.nextDelay({
+      attempt: this.reconnectAttempts,
+      elapsed,
+      previousDelay,
+      error,
+    });
+
+    logger.debug('Calculated reconnect delay', 'RabbitMQClient.calculateReconnectDelay', {
+      policy: this.retryPolicy.name,
+      attempt: this.reconnectAttempts,
+      elapsed,
+      delay,
+    });
+
+    return delay;
+  }
+
+  /**
+   * Attempts to reconnect to RabbitMQ, waiting between attempts as the retry policy decides.
+   * Does nothing while another reconnection is in progress or the client is not connected.
+   *
+   * @private
+   * @param {string} [reason] - Why the connection is re-established, for the state change
+   * @returns {Promise<void>}
+   * @throws {Error} If maximum reconnection attempts exceeded or the retry policy gives up
+   */
+  private async reconnect(reason = 'connection lost'): Promise<void> {
+    if (!this.isEstablished() && this.state !== 'failed') {
+      logger.debug('Reconnection skipped', 'RabbitMQClient.reconnect', { state: this.state });
+      return;
+    }
+    this.setState('reconnecting', reason);
+
+    let lastError: Error | null = null;
+    const startedAt = Date.now();
+    let previousDelay: number | null = null;
+
+    try {
+      logger.info('Starting reconnection process', 'RabbitMQClient.reconnect', {
+        attempt: this.reconnectAttempts + 1,
+        maxAttempts: this.options.maxReconnectAttempts,
+        reason,
+      });
+
+      // Force cleanup of existing connections/channels
+      await this.forceCleanup();
+
+      while (!this.isConnectionOpen(this.connection)) {
+        if (this.state !== 'reconnecting') {
+          logger.info('Reconnection stopped', 'RabbitMQClient.reconnect', { state: this.state });
+          return;
+        }
+
+        const policyDelay = this.calculateReconnectDelay(
+          Date.now() - startedAt,
+          previousDelay,
+          lastError ?? undefined,
+        );
+        if (policyDelay === null) {
+          const error =
+            lastError ??
+            new ConnectionError('Retry policy gave up reconnecting', {
+              policy: this.retryPolicy.name,
+            });
+          logger.error('Retry policy gave up reconnecting', 'RabbitMQClient.reconnect', {
+            policy: this.retryPolicy.name,
+            attempts: this.reconnectAttempts,
+            elapsed: Date.now() - startedAt,
+            error: this.formatError(error),
+          });
+
+          this.emit('reconnectFailed', error);
+          throw error;
+        }
+        previousDelay = policyDelay;
+
+        try {
+          // Never retry before an open circuit breaker allows a probe
+          const delay = Math.max(policyDelay, this.getCircuitBreakerRemainingTime());
+
+          logger.info('Attempting to reconnect', 'RabbitMQClient.reconnect', {
+            attempt: this.reconnectAttempts + 1,
+            delay,
+            maxAttempts: this.options.maxReconnectAttempts,
+            circuitBreakerState: this.circuitBreaker.state,
+          });
+
+          this.emit('reconnecting');
+
+          // Wait for calculated delay
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          if (this.state !== 'reconnecting') {
+            continue;
+          }
+
+          this.checkCircuitBreaker('reconnect');
+
+          // Try to establish new connection
+          this.connection = await this.tryNextClusterNode(
+            this.options.clusterOptions?.retryConnectTimeout || 5000,
+          );
+
+          // Setup new connection handlers first
+          this.setupConnectionHandlers();
+
+          // Setup connection monitoring
+          this.setupConnectionMonitoring();
+
+          // Then setup channels
+          await this.setupChannels();
+          await this.restoreConsumers();
+
+          this.reconnectAttempts = 0;
+          this.resetCircuitBreakerState();
+          this.metrics.reconnections++;
+          this.metrics.lastReconnectTime = new Date();
+
+          logger.info('Successfully reconnected', 'RabbitMQClient.reconnect', {
+            totalReconnections: this.metrics.reconnections,
+            lastReconnectTime: this.metrics.lastReconnectTime,
+          });
+          this.setState(this.blockedState ? 'blocked' : 'connected', 'reconnected');
+          this.emit('reconnected');
+          return;
+        } catch (error) {
+          lastError = this.ensureError(error);
+          this.reconnectAttempts++;
+          if (!(lastError instanceof CircuitBreakerError)) {
+            this.recordCircuitBreakerFailure(lastError);
+          }
+
+          logger.error('Reconnection attempt failed', 'RabbitMQClient.reconnect', {
+            error: this.formatError(lastError),
+            attempt: this.reconnectAttempts,
+            maxAttempts: this.options.maxReconnectAttempts,
+          });
+
+          if (
+            this.options.maxReconnectAttempts !== -1 &&
+            this.reconnectAttempts >= (this.options.maxReconnectAttempts || 0)
+          ) {
+            logger.error('Max reconnection attempts exceeded', 'RabbitMQClient.reconnect', {
+              attempts: this.reconnectAttempts,
+              maxAttempts: this.options.maxReconnectAttempts,
+              error: this.formatError(lastError),
+            });
+
+            this.emit('reconnectFailed', lastError);
+            throw lastError;
+          }
+        }
+      }
+
+      this.setState(this.blockedState ? 'blocked' : 'connected', 'reconnected');
+    } catch (error) {
+      if (this.state === 'reconnecting') {
+        this.setState('failed', this.ensureError(error).message);
+      }
+      logger.error('Reconnection process failed', 'RabbitMQClient.reconnect', {
+        error: this.formatError(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Forces cleanup of all connections and channels
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async forceCleanup(): Promise<void> {
+    logger.debug(
+      'Starting force cleanup of connections and channels',
+      'RabbitMQClient.forceCleanup',
+    );
+
+    try {
+      // Force close all channels in the pool
+      for (const channel of this.channelPool.channels) {
+        try {
+          if (channel && typeof channel.close === 'function') {
+            await channel.close().catch(() => {
+              /* ignore close errors */
+            });
+          }
+        } catch (error) {
+          logger.debug('Error closing pool channel', 'RabbitMQClient.forceCleanup', {
+            error: this.formatError(error),
+          });
+        }
+      }
+      this.channelPool.channels = [];
+      this.channelPool.inUse.clear();
+      this.clearChannelLeases();
+
+      // Force close default channel
+      if (this.defaultChannel) {
+        try {
+          await this.defaultChannel.close().catch(() => {
+            /* ignore close errors */
+          });
+        } catch (error) {
+          logger.debug('Error closing default channel', 'RabbitMQClient.forceCleanup', {
+            error: this.formatError(error),
+          });
+        }
+        this.defaultChannel = null;
+        this.fireAndForgetChannel = null;
+      }
+
+      // Force close connection
+      if (this.connection) {
+        try {
+          await this.connection.close().catch(() => {
+            /* ignore close errors */
+          });
+        } catch (error) {
+          logger.debug('Error closing connection', 'RabbitMQClient.forceCleanup', {
+            error: this.formatError(error),
+          });
+        }
+        this.connection = null;
+      }
+
+      logger.debug('Force cleanup completed', 'RabbitMQClient.forceCleanup');
+    } catch (error) {
+      logger.warn('Error during force cleanup', 'RabbitMQClient.forceCleanup', {
+        error: this.formatError(error),
+      });
+    }
+  }
+
+  /**
+   * Checks if a connection is open and healthy
+   *
+   * @private
+   * @param {Connection | null} connection - Connection to check
+   * @returns {boolean} True if connection is open
+   */
+  private isConnectionOpen(connection: Connection | null): boolean {
+    if (!connection) {
+      logger.trace('Connection check: null connection', 'RabbitMQClient.isConnectionOpen');
+      return false;
+    }
+
+    try {
+      const conn = connection as Connection & {
+        connection: { stream: { readable: boolean; writable: boolean } };
+      };
+
+      const isOpen = Boolean(
+        conn.connection &&
+          !(connection as unknown as { closing: boolean; closed: boolean }).closing &&
+          !(connection as unknown as { closing: boolean; closed: boolean }).closed &&
+          conn.connection.stream?.readable &&
+          conn.connection.stream?.writable,
+      );
+
+      logger.trace('Connection status checked', 'RabbitMQClient.isConnectionOpen', { isOpen });
+      return isOpen;
+    } catch (error) {
+      logger.debug('Error checking connection state', 'RabbitMQClient.isConnectionOpen', {
+        error: this.formatError(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Closes the RabbitMQ client and all associated resources
+   *
+   * @public
+   * @returns {Promise<void>} Promise that resolves when client is closed
+   *
+   * @example
+   * ```typescript
+   * await client.close();
+   * console.log('Client closed successfully');
+   * ```
+   */
+  public async close(): Promise<void> {
+    try {
+      logger.info('Initiating RabbitMQ connection shutdown', 'RabbitMQClient.close');
+
+      // Stop consuming before the publishing connection goes away
+      if (this.consumerClient) {
+        await this.consumerClient.close();
+      }
+
+      this.setState('closing', 'close');
+      await this.stopConsumers();
+
+      // Clear all interval timers
+      for (const intervalId of this.intervalTimers) {
+        clearInterval(intervalId);
+      }
+      this.intervalTimers.clear();
+      logger.debug('Cleared all interval timers', 'RabbitMQClient.close');
+
+      if (this.messageBatch.timer) {
+        clearTimeout(this.messageBatch.timer);
+        this.messageBatch.timer = null;
+        logger.debug('Cleared message batch timer', 'RabbitMQClient.close');
+      }
+
+      if (this.credentialsRefreshTimer) {
+        clearTimeout(this.credentialsRefreshTimer);
+        this.credentialsRefreshTimer = null;
+      }
+
+      this.releaseBlockedPublishes(
+        new ConnectionBlockedError('Client closed while the connection was blocked'),
+      );
+      this.rejectChannelWaiters(
+        new ChannelAcquisitionError('Client closed while waiting for a channel'),
+      );
+
+      // Close all channels in the pool
+      for (const channel of this.channelPool.channels) {
+        try {
+          if (this.isChannelOpen(channel)) {
+            await channel.close();
+            logger.trace('Closed pool channel', 'RabbitMQClient.close');
+          }
+        } catch (err) {
+          logger.error('Error closing channel from pool', 'RabbitMQClient.close', {
+            error: this.formatError(err),
+          });
+          this.emit('channelCloseError', err);
+        }
+      }
+      this.channelPool.channels = [];
+      this.channelPool.inUse.clear();
+      this.clearChannelLeases();
+
+      if (this.defaultChannel) {
+        try {
+          await this.defaultChannel.close();
+          logger.debug('Closed default channel', 'RabbitMQClient.close');
+        } catch (err) {
+          logger.error('Error closing default channel', 'RabbitMQClient.close', {
+            error: this.formatError(err),
+          });
+          this.emit('channelCloseError', err);
+        }
+        this.defaultChannel = null;
+        this.fireAndForgetChannel = null;
+      }
+
+      if (this.connection) {
+        try {
+          await this.connection.close();
+          this.emit('connectionClosed');
+          logger.debug('Closed connection', 'RabbitMQClient.close');
+        } catch (err) {
+          logger.error('Error closing connection', 'RabbitMQClient.close', {
+            error: this.formatError(err),
+          });
+          this.emit('connectionCloseError', err);
+        }
+        this.connection = null;
+      }
+
+      logger.info('Successfully closed RabbitMQ connection', 'RabbitMQClient.close');
+      this.setState('closed');
+      this.emit('closed');
+    } catch (error) {
+      logger.error('Unexpected error during connection shutdown', 'RabbitMQClient.close', {
+        error: this.formatError(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks if a channel is open and healthy
+   *
+   * @private
+   * @param {Channel | ConfirmChannel | null} channel - Channel to check
+   * @returns {boolean} True if channel is open
+   */
+  private isChannelOpen(channel: Channel | ConfirmChannel | null): boolean {
+    if (!channel) {
+      return false;
+    }
+    // Type assertion since the property exists but isn't typed
+    const isOpen = !(channel as unknown as { closed: boolean }).closed;
+    logger.trace('Channel status checked', 'RabbitMQClient.isChannelOpen', { isOpen });
+    return isOpen;
+  }
+
+  /**
+   * Ensures the default channel is available and connection is healthy
+   *
+   * @private
+   * @returns {void}
+   * @throws {Error} If not connected or channel is not available
+   */
+  private ensureChannel(): void {
+    if (
+      !this.defaultChannel ||
+      !this.connection ||
+      !this.isConnectionOpen(this.connection) ||
+      !this.isChannelOpen(this.defaultChannel)
+    ) {
+      const error = new Error('Not connected to RabbitMQ. Call connect() first.');
+      logger.error('Channel check failed', 'RabbitMQClient.ensureChannel', {
+        error: error.message,
+        hasConnection: !!this.connection,
+        hasDefaultChannel: !!this.defaultChannel,
+        connectionOpen: this.connection ? this.isConnectionOpen(this.connection) : false,
+        channelOpen: this.defaultChannel ? this.isChannelOpen(this.defaultChannel) : false,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the error an aborted operation rejects with
+   *
+   * @private
+   * @param {AbortSignal} signal - The aborted signal
+   * @param {string} operation - Name of the aborted operation
+   * @returns {OperationAbortedError} Error carrying the abort reason
+   */
+  private createAbortError(signal: AbortSignal, operation: string): OperationAbortedError {
+    const reason: unknown = signal.reason;
+    return new OperationAbortedError(`Operation aborted: ${operation}`, {
+      operation,
+      reason: reason instanceof Error ? reason.message : reason,
+    });
+  }
+
+  /**
+   * Throws if the signal has already been aborted
+   *
+   * @private
+   * @param {AbortSignal | undefined} signal - Signal of the operation
+   * @param {string} operation - Name of the operation
+   * @returns {void}
+   * @throws {OperationAbortedError} If the signal is aborted
+   */
+  private throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+    if (signal?.aborted) {
+      logger.debug('Operation aborted', 'RabbitMQClient.throwIfAborted', { operation });
+      throw this.createAbortError(signal, operation);
+    }
+  }
+
+  /**
+   * Waits for a promise unless the signal is aborted first. The promise itself keeps
+   * running; `onAbort` cleans up whatever should not outlive the caller.
+   *
+   * @private
+   * @param {Promise<T>} promise - Promise to wait for
+   * @param {AbortSignal | undefined} signal - Signal of the operation
+   * @param {string} operation - Name of the operation
+   * @param {() => void} [onAbort] - Called when the signal aborts the wait
+   * @returns {Promise<T>} Result of the promise
+   * @throws {OperationAbortedError} If the signal is aborted before the promise settles
+   */
+  private async withAbort<T>(
+    promise: Promise<T>,
+    signal: AbortSignal | undefined,
+    operation: string,
+    onAbort?: () => void,
+  ): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const abort = (): void => {
+        logger.debug('Operation aborted', 'RabbitMQClient.withAbort', { operation });
+        onAbort?.();
+        reject(this.createAbortError(signal, operation));
+      };
+      if (signal.aborted) {
+        abort();
+        return;
+      }
+
+      signal.addEventListener('abort', abort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener('abort', abort);
+          resolve(value);
+        },
+        (error: unknown) => {
+          signal.removeEventListener('abort', abort);
+          reject(this.ensureError(error));
+        },
+      );
+    });
+  }
+
+  /**
+   * Waits for the given time, or until the signal is aborted
+   *
+   * @private
+   * @param {number} delay - Time to wait in milliseconds
+   * @param {AbortSignal} [signal] - Signal of the waiting operation
+   * @param {string} [operation] - Name of the waiting operation
+   * @returns {Promise<void>}
+   * @throws {OperationAbortedError} If the signal is aborted while waiting
+   */
+  private async sleep(delay: number, signal?: AbortSignal, operation = 'sleep'): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await this.withAbort(
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, delay);
+      }),
+      signal,
+      operation,
+      () => clearTimeout(timer),
+    );
+  }
+
+  /**
+   * Ensures error is properly typed as Error instance
+   *
+   * @private
+   * @param {unknown} error - The error to check
+   * @returns {Error} Error instance
+   */
+  private ensureError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Handles errors with logging and metrics updates
+   *
+   * @private
+   * @param {unknown} error - The error that occurred
+   * @returns {Promise<void>}
+   */
+  private async handleError(error: unknown): Promise<void> {
+    const err = this.ensureError(error);
+    this.metrics.errors++;
+
+    // Enhanced error logging
+    logger.error(`RabbitMQ Error: ${err.message}`, 'RabbitMQClient.handleError', {
+      error: this.formatError(err),
+      stack: err.stack,
+      metrics: this.metrics,
+      connectionState: {
+        isConnected: Boolean(this.connection),
+        state: this.state,
+        reconnectAttempts: this.reconnectAttempts,
+        circuitBreakerState: this.circuitBreaker,
+      },
+    });
+
+    this.emit('error', err);
+
+    if (this.isEstablished()) {
+      logger.debug('Initiating reconnection due to error', 'RabbitMQClient.handleError');
+      await this.reconnect(err.message);
+    }
+  }
+
+  /**
+   * Publishes a batch of messages to RabbitMQ using confirm channel, or a plain channel with
+   * the `fireAndForget` delivery guarantee
+   *
+   * @public
+   * @param {MessageBatch['messages']} messages - Array of messages to publish
+   * @param {AbortOptions & DeliveryOptions} [options] - Delivery guarantee; aborting the signal
+   * stops publishing the remaining messages
+   * @returns {Promise<void>} Promise that resolves when all messages are published
+   * @throws {CircuitBreakerError} If the circuit breaker is not closed
+   * @throws {ConnectionBlockedError} If `blockedPublishPolicy` refuses the publish while blocked
+   * @throws {OperationAbortedError} If the signal is aborted before every message is confirmed
+   * @throws {PublishTimeoutError} If a `fireAndForget` channel does not drain within 30 seconds
+   * @throws {Error} If channel is not available or publishing fails
+   *
+   * @example
+   * ```typescript
+   * const messages = [
+   *   {
+   *     exchange: 'my-exchange',
+   *     routingKey: 'routing.key',
+   *     content: Buffer.from('message 1'),
+   *     options: {}
+   *   },
+   *   {
+   *     exchange: 'my-exchange',
+   *     routingKey: 'routing.key',
+   *     content: Buffer.from('message 2'),
+   *     options: {}
+   *   }
+   * ];
+   * await client.publishBatch(messages);
+   * ```
+   */
+  public async publishBatch(
+    messages: MessageBatch['messages'],
+    options: AbortOptions & DeliveryOptions = {},
+  ): Promise<void> {
+    const { signal } = options;
+    const fireAndForget =
+      (options.deliveryGuarantee ?? this.options.deliveryGuarantee) === 'fireAndForget';
+    logger.debug('Publishing message batch', 'RabbitMQClient.publishBatch', {
+      messageCount: messages.length,
+    });
+
+    this.throwIfAborted(signal, 'publishBatch');
+    this.checkCircuitBreaker('publishBatch');
+    await this.waitUntilUnblocked('publishBatch', messages.length, signal);
+    this.ensureChannel();
+    if (!this.defaultChannel) {
+      const error = new Error('Channel not available');
+      logger.error('Batch publish failed - no channel', 'RabbitMQClient.publishBatch', {
+        error: error.message,
+      });
+      throw error;
+    }
+
+    try {
+      if (fireAndForget) {
+        const channel = await this.getFireAndForgetChannel();
+        for (const msg of messages) {
+          this.throwIfAborted(signal, 'publishBatch');
+          await this.writeWithBackpressure(
+            channel,
+            () => channel.publish(msg.exchange, msg.routingKey, msg.content, msg.options),
+            this.options.publishDrainTimeout ?? CONSTANTS.DEFAULT_PUBLISH_DRAIN_TIMEOUT,
+            signal,
+            'publishBatch',
+          );
+        }
+      } else {
+        // One channel for the whole batch keeps its messages in order
+        const channel = this.selectPublishChannel();
+        for (const msg of messages) {
+          this.throwIfAborted(signal, 'publishBatch');
+          const confirmed = new Promise<void>((resolve, reject) => {
+            this.trackConfirm(channel, 1);
+            channel.publish(msg.exchange, msg.routingKey, msg.content, msg.options, (err) => {
+              this.trackConfirm(channel, -1);
+              if (err) {
+                logger.error('Message publish failed in batch', 'RabbitMQClient.publishBatch', {
+                  error: this.formatError(err),
+                  exchange: msg.exchange,
+                  routingKey: msg.routingKey,
+                });
+                reject(this.ensureError(err));
+              } else {
+                logger.trace('Message published in batch', 'RabbitMQClient.publishBatch', {
+                  exchange: msg.exchange,
+                  routingKey: msg.routingKey,
+                });
+                resolve();
+              }
+            });
+          });
+          await this.withAbort(confirmed, signal, 'publishBatch');
+        }
+      }
+      this.metrics.messagesSent += messages.length;
+      logger.info('Batch publish completed', 'RabbitMQClient.publishBatch', {
+        messageCount: messages.length,
+        totalSent: this.metrics.messagesSent,
+      });
+    } catch (error) {
+      if (error instanceof OperationAbortedError) {
+        throw error;
+      }
+      logger.error('Batch publish failed', 'RabbitMQClient.publishBatch', {
+        error: this.formatError(error),
+        messageCount: messages.length,
+      });
+      await this.handleError(error);
+      throw this.ensureError(error);
+    }
+  }
+
+  /**
+   * Performs a health check on the RabbitMQ connection and channels. With
+   * `separateConnections`, both the publishing and the consuming connection must be healthy.
+   *
+   * @public
+   * @returns {Promise<boolean>} Promise resolving to true if healthy
+   *
+   * @example
+   * ```typescript
+   * const isHealthy = await client.healthCheck();
+   * if (!isHealthy) {
+   *   console.log('RabbitMQ client is not healthy');
+   * }
+   * ```
+   */
+  public async healthCheck(): Promise<boolean> {
+    const healthy = await this.checkConnectionHealth();
+    if (!healthy || !this.consumerClient) {
+      return healthy;
+    }
+
+    return this.consumerClient.healthCheck();
+  }
+
+  /**
+   * Checks this client's own connection and default channel with a passive check of a
+   * built-in exchange, which declares, changes and deletes nothing on the broker
+   *
+   * @private
+   * @returns {Promise<boolean>} Promise resolving to true if the connection is healthy
+   */
+  private async checkConnectionHealth(): Promise<boolean> {
+    logger.trace('Performing health check', 'RabbitMQClient.checkConnectionHealth');
+
+    const record = (error: string | null): boolean => {
+      this.lastHealthCheck = { at: new Date(), healthy: error === null, error };
+      return error === null;
+    };
+
+    try {
+      if (!this.connection || !this.isConnectionOpen(this.connection)) {
+        logger.debug('Health check failed - no connection', 'RabbitMQClient.checkConnectionHealth');
+        return record('No connection');
+      }
+
+      if (!this.defaultChannel || !this.isChannelOpen(this.defaultChannel)) {
+        logger.debug(
+          'Health check failed - no default channel',
+          'RabbitMQClient.checkConnectionHealth',
+        );
+        return record('No default channel');
+      }
+
+      // Round trip to the broker without side effects
+      await this.defaultChannel.checkExchange(CONSTANTS.HEALTH_CHECK_EXCHANGE);
+
+      logger.trace('Health check passed', 'RabbitMQClient.checkConnectionHealth');
+      return record(null);
+    } catch (err) {
+      logger.error('Health check failed', 'RabbitMQClient.checkConnectionHealth', {
+        error: this.formatError(err),
+      });
+      return record(this.ensureError(err).message);
+    }
+  }
+
+  /**
+   * Reports the status of the connection, default channel, channel pool, consumers, circuit
+   * breaker and broker blocks without contacting the broker. Use `ready` for readiness and
+   * `live` for liveness probes.
+   *
+   * @public
+   * @returns {HealthReport} Health snapshot
+   *
+   * @example
+   * ```typescript
+   * app.get('/ready', (_req, res) => res.sendStatus(client.getHealthReport().ready ? 200 : 503));
+   * app.get('/live', (_req, res) => res.sendStatus(client.getHealthReport().live ? 200 : 503));
+   * ```
+   */
+  public getHealthReport(): HealthReport {
+    const consuming = this.consumerClient ?? this;
+    const connected = this.isConnectionOpen(this.connection);
+    const openPoolChannels = this.channelPool.channels.filter((channel) =>
+      this.isChannelOpen(channel),
+    ).length;
+    const circuitBreakerState = this.getCircuitBreakerState();
+    const consumerCount = consuming.consumers.size;
+    const runningConsumers = consuming.isConnectionOpen(consuming.connection)
+      ? [...consuming.consumers.values()].filter((consumer) =>
+          consuming.isChannelOpen(consumer.channel),
+        ).length
+      : 0;
+
+    const components: HealthReport['components'] = {
+      connection: {
+        status: connected ? 'up' : 'down',
+        details: { state: this.state, node: connected ? this.currentNode : null },
+      },
+      defaultChannel: {
+        status: this.isChannelOpen(this.defaultChannel) ? 'up' : 'down',
+        details: {},
+      },
+      channelPool: {
+        status: openPoolChannels === this.channelPool.channels.length ? 'up' : 'degraded',
+        details: {
+          size: this.channelPool.channels.length,
+          open: openPoolChannels,
+          inUse: this.channelPool.inUse.size,
+          minChannels: this.channelPool.minChannels,
+          maxChannels: this.channelPool.maxChannels,
+        },
+      },
+      consumers: {
+        status:
+          runningConsumers === consumerCount ? 'up' : runningConsumers > 0 ? 'degraded' : 'down',
+        details: { count: consumerCount, state: consuming.state },
+      },
+      circuitBreaker: {
+        status:
+          circuitBreakerState === 'CLOSED'
+            ? 'up'
+            : circuitBreakerState === 'HALF_OPEN'
+              ? 'degraded'
+              : 'down',
+        details: { state: circuitBreakerState, failures: this.circuitBreaker.failures },
+      },
+      blocked: {
+        status: this.isBlocked() ? 'down' : 'up',
+        details: {
+          reason: (this.blockedState ?? consuming.blockedState)?.reason ?? null,
+          heldPublishes: this.blockedPublishes.length,
+        },
+      },
+    };
+
+    const statuses = Object.values(components).map((component) => component.status);
+    const status: HealthStatus = statuses.includes('down')
+      ? 'down'
+      : statuses.includes('degraded')
+        ? 'degraded'
+        : 'up';
+
+    return {
+      status,
+      live: this.state !== 'failed' && consuming.state !== 'failed',
+      ready: status !== 'down',
+      state: this.state,
+      lastCheck: this.lastHealthCheck ? { ...this.lastHealthCheck } : null,
+      components,
+    };
+  }
+
+  /**
+   * Gets current performance and operational metrics
+   *
+   * @public
+   * @returns {Metrics} Copy of current metrics
+   *
+   * @example
+   * ```typescript
+   * const metrics = client.getMetrics();
+   * console.log(`Messages sent: ${metrics.messagesSent}`);
+   * console.log(`Messages received: ${metrics.messagesReceived}`);
+   * console.log(`Errors: ${metrics.errors}`);
+   * ```
+   */
+  public getMetrics(): Metrics {
+    logger.trace('Getting current metrics', 'RabbitMQClient.getMetrics', this.metrics);
+    if (!this.consumerClient) {
+      return { ...this.metrics };
+    }
+
+    // Combine publishing and consuming connection metrics
+    const consumer = this.consumerClient.getMetrics();
+    const reconnectTimes = [this.metrics.lastReconnectTime, consumer.lastReconnectTime].filter(
+      (time): time is Date => time !== null,
+    );
+    return {
+      messagesSent: this.metrics.messagesSent + consumer.messagesSent,
+      messagesReceived: this.metrics.messagesReceived + consumer.messagesReceived,
+      errors: this.metrics.errors + consumer.errors,
+      reconnections: this.metrics.reconnections + consumer.reconnections,
+      lastReconnectTime:
+        reconnectTimes.length > 0
+          ? new Date(Math.max(...reconnectTimes.map((time) => time.getTime())))
+          : null,
+      avgProcessingTime: consumer.avgProcessingTime,
+      channelAcquisitions: this.metrics.channelAcquisitions + consumer.channelAcquisitions,
+      channelAcquisitionTimeouts:
+        this.metrics.channelAcquisitionTimeouts + consumer.channelAcquisitionTimeouts,
+      avgChannelWaitTime: this.metrics.avgChannelWaitTime,
+    };
+  }
+
+  /**
+   * Performs graceful shutdown of the RabbitMQ client
+   *
+   * Aborting the signal stops waiting for in-flight messages; channels and the connection
+   * are still closed.
+   *
+   * @public
+   * @param {AbortOptions} [options] - Shutdown options
+   * @returns {Promise<void>} Promise that resolves when shutdown is complete
+   *
+   * @example
+   * ```typescript
+   * await client.gracefulShutdown({ signal: AbortSignal.timeout(1000) });
+   * console.log('Client shutdown gracefully');
+   * ```
+   */
+  public async gracefulShutdown(options: AbortOptions = {}): Promise<void> {
+    // Outside the try, so the shutdown in progress is the one that moves to closed
+    if (this.state === 'closing') {
+      logger.info('Shutdown already in progress', 'RabbitMQClient.gracefulShutdown');
+      return;
+    }
+
+    try {
+      logger.info('Starting graceful shutdown...', 'RabbitMQClient.gracefulShutdown');
+
+      // Stop accepting new connections/channels immediately
+      this.setState('closing', 'graceful shutdown');
+
+      if (this.consumerClient) {
+        await this.consumerClient.gracefulShutdown(options);
+      }
+      // Stop deliveries before waiting for the messages in flight
+      await this.stopConsumers(3000);
+
+      // Clear all interval timers
+      for (const intervalId of this.intervalTimers) {
+        clearInterval(intervalId);
+      }
+      this.intervalTimers.clear();
+
+      // Clear any pending timers
+      if (this.messageBatch.timer) {
+        clearTimeout(this.messageBatch.timer);
+        this.messageBatch.timer = null;
+      }
+      if (this.credentialsRefreshTimer) {
+        clearTimeout(this.credentialsRefreshTimer);
+        this.credentialsRefreshTimer = null;
+      }
+      this.releaseBlockedPublishes(
+        new ConnectionBlockedError('Client shut down while the connection was blocked'),
+      );
+      this.rejectChannelWaiters(
+        new ChannelAcquisitionError('Client shut down while waiting for a channel'),
+      );
+
+      // Wait for in-flight messages with a shorter timeout
+      await this.waitForInFlightMessages(3000, options.signal);
+
+      // Close channels and connection
+      logger.info('Closing channels and connection...', 'RabbitMQClient.gracefulShutdown');
+
+      // Close all channels first
+      for (const channel of this.channelPool.channels) {
+        try {
+          if (this.isChannelOpen(channel)) {
+            await channel.close();
+          }
+        } catch (error) {
+          logger.debug('Error closing channel', 'RabbitMQClient.gracefulShutdown', {
+            error: this.formatError(error),
+          });
+        }
+      }
+      this.channelPool.channels = [];
+      this.channelPool.inUse.clear();
+      this.clearChannelLeases();
+
+      // Close default channel
+      if (this.defaultChannel) {
+        try {
+          await this.defaultChannel.close();
+        } catch (error) {
+          logger.debug('Error closing default channel', 'RabbitMQClient.gracefulShutdown', {
+            error: this.formatError(error),
+          });
+        }
+        this.defaultChannel = null;
+        this.fireAndForgetChannel = null;
+      }
+
+      // Finally close the connection
+      if (this.connection) {
+        try {
+          await this.connection.close();
+          this.connection = null;
+          logger.info('Connection closed successfully', 'RabbitMQClient.gracefulShutdown');
+        } catch (error) {
+          logger.debug('Error closing connection', 'RabbitMQClient.gracefulShutdown', {
+            error: this.formatError(error),
+          });
+        }
+      }
+
+      logger.info('Graceful shutdown completed', 'RabbitMQClient.gracefulShutdown');
+    } catch (error) {
+      logger.error('Error during graceful shutdown', 'RabbitMQClient.gracefulShutdown', {
+        error: this.formatError(error),
+      });
+      throw error;
+    } finally {
+      this.setState('closed');
+    }
+  }
+
+  /**
+   * Waits for in-flight messages to complete processing
+   *
+   * @private
+   * @param {number} maxWaitTime - Maximum time to wait in milliseconds
+   * @param {AbortSignal} [signal] - Stops waiting when aborted
+   * @returns {Promise<void>}
+   */
+  private async waitForInFlightMessages(maxWaitTime = 5000, signal?: AbortSignal): Promise<void> {
+    const startTime = Date.now();
+    logger.info(
+      'Waiting for in-flight messages to complete...',
+      'RabbitMQClient.waitForInFlightMessages',
+    );
+
+    return new Promise((resolve) => {
+      const checkMessages = (): void => {
+        const timeElapsed = Date.now() - startTime;
+
+        if (timeElapsed >= maxWaitTime) {
+          logger.warn(
+            'Max wait time reached for in-flight messages',
+            'RabbitMQClient.waitForInFlightMessages',
+          );
+          resolve();
+          return;
+        }
+
+        if (signal?.aborted) {
+          logger.warn(
+            'Stopped waiting for in-flight messages - signal aborted',
+            'RabbitMQClient.waitForInFlightMessages',
+          );
+          resolve();
+          return;
+        }
+
+        // Check if there are any messages being processed
+        if (this.metrics.messagesSent === this.metrics.messagesReceived) {
+          logger.info('All in-flight messages completed', 'RabbitMQClient.waitForInFlightMessages');
+          resolve();
+          return;
+        }
+
+        // Check again after 100ms
+        setTimeout(checkMessages, 100);
+      };
+
+      checkMessages();
+    });
+  }
+
+  /**
+   * Message acknowledgment helpers for manual ack mode
+   * @interface MessageActions
+   */
+  private createMessageActions(
+    msg: Message,
+    queue: string,
+    channel: Channel | ConfirmChannel,
+  ): MessageActions {
+    let acknowledged = false;
+
+    return {
       ack: async () => {
         if (acknowledged) {
           logger.warn('Message already acknowledged', 'RabbitMQClient.consume', {
@@ -2074,7 +4873,7 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
         }
         acknowledged = true;
         try {
-          this.defaultChannel?.ack(msg);
+          channel.ack(msg);
           logger.trace('Message manually acknowledged', 'RabbitMQClient.consume', {
             queue,
             deliveryTag: msg.fields.deliveryTag,
@@ -2093,7 +4892,7 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
         }
         acknowledged = true;
         try {
-          this.defaultChannel?.nack(msg, false, requeue);
+          channel.nack(msg, false, requeue);
           logger.trace('Message manually nacked', 'RabbitMQClient.consume', {
             queue,
             deliveryTag: msg.fields.deliveryTag,
@@ -2103,216 +4902,859 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
           throw new Error(err instanceof Error ? err.message : 'Nack failed');
         }
       },
-      reject: async (requeue = false) => {
-        if (acknowledged) {
-          logger.warn('Message already acknowledged', 'RabbitMQClient.consume', {
-            queue,
-            deliveryTag: msg.fields.deliveryTag,
-          });
+      reject: async (requeue = false) => {
+        if (acknowledged) {
+          logger.warn('Message already acknowledged', 'RabbitMQClient.consume', {
+            queue,
+            deliveryTag: msg.fields.deliveryTag,
+          });
+          return;
+        }
+        acknowledged = true;
+        try {
+          channel.reject(msg, requeue);
+          logger.trace('Message manually rejected', 'RabbitMQClient.consume', {
+            queue,
+            deliveryTag: msg.fields.deliveryTag,
+            requeue,
+          });
+        } catch (err) {
+          throw new Error(err instanceof Error ? err.message : 'Reject failed');
+        }
+      },
+    };
+  }
+
+  /**
+   * Consumes messages from a queue with improved async handling
+   *
+   * Every consumer gets a channel of its own, with its own prefetch. A channel error, such as
+   * acknowledging an unknown delivery tag, only affects that consumer, which is restarted on a
+   * new channel with the same consumer tag.
+   *
+   * @public
+   * @param {string} queue - Queue name to consume from
+   * @param {ConsumeCallback} onMessage - Message handler function
+   * @param {ConsumeOptions} options - Consume options with optional timeout, manualAck, prefetch
+   * and an abort signal that cancels the consumer
+   * @returns {Promise<string>} Promise resolving to consumer tag
+   * @throws {CircuitBreakerError} If the circuit breaker is not closed
+   * @throws {OperationAbortedError} If the signal is aborted before the consumer is set up
+   * @throws {Error} If channel is not available or consumption fails
+   *
+   * @example
+   * ```typescript
+   * // Auto-acknowledgment mode (default)
+   * const consumerTag = await client.consume('my-queue', async (msg) => {
+   *   if (msg) {
+   *     console.log('Received:', msg.content.toString());
+   *     // Message will be automatically acknowledged on success
+   *   }
+   * }, { noAck: false, timeout: 30000 });
+   *
+   * // Manual acknowledgment mode
+   * await client.consume('my-queue', async (msg, actions) => {
+   *   if (msg && actions) {
+   *     try {
+   *       await processMessage(msg);
+   *       await actions.ack(); // Manually acknowledge
+   *     } catch (error) {
+   *       await actions.nack(true); // Requeue on failure
+   *       // OR: await actions.reject(false); // Send to DLQ
+   *     }
+   *   }
+   * }, { manualAck: true });
+   * ```
+   */
+  public async consume(
+    queue: string,
+    onMessage: ConsumeCallback,
+    options: ConsumeOptions = {},
+  ): Promise<string> {
+    if (this.consumerClient) {
+      return this.consumerClient.consume(queue, onMessage, options);
+    }
+
+    const { signal, ...consumeOptions } = options;
+    const { manualAck = false, timeout = 30000 } = consumeOptions;
+
+    logger.debug('Setting up message consumer', 'RabbitMQClient.consume', {
+      queue,
+      options: { ...consumeOptions, timeout, manualAck },
+    });
+
+    this.throwIfAborted(signal, 'consume');
+    this.checkCircuitBreaker('consume');
+    this.ensureChannel();
+    if (!this.defaultChannel) {
+      const error = new Error('Channel not available');
+      logger.error('Consumer setup failed - no channel', 'RabbitMQClient.consume', {
+        error: error.message,
+        queue,
+      });
+      throw error;
+    }
+
+    try {
+      const channel = await this.openConsumerChannel(consumeOptions);
+      const consumerTag = await this.startConsumer(channel, queue, onMessage, consumeOptions).catch(
+        async (error: unknown) => {
+          await channel.close().catch(() => {
+            /* ignore close errors */
+          });
+          throw error;
+        },
+      );
+      this.consumers.set(consumerTag, { queue, onMessage, options: consumeOptions, channel });
+
+      logger.info('Consumer setup completed', 'RabbitMQClient.consume', {
+        queue,
+        consumerTag,
+        options: { ...consumeOptions, manualAck },
+      });
+
+      if (signal) {
+        await this.cancelConsumerOnAbort(consumerTag, signal);
+      }
+
+      return consumerTag;
+    } catch (error) {
+      if (error instanceof OperationAbortedError) {
+        throw error;
+      }
+      logger.error('Failed to setup consumer', 'RabbitMQClient.consume', {
+        error: this.formatError(error),
+        queue,
+      });
+      await this.handleError(error);
+      throw this.ensureError(error);
+    }
+  }
+
+  /**
+   * Cancels a consumer once the signal is aborted. A signal aborted while the consumer was
+   * being set up cancels it right away.
+   *
+   * @private
+   * @param {string} consumerTag - Tag of the consumer
+   * @param {AbortSignal} signal - Signal given to consume()
+   * @returns {Promise<void>}
+   * @throws {OperationAbortedError} If the signal was aborted during setup
+   */
+  private async cancelConsumerOnAbort(consumerTag: string, signal: AbortSignal): Promise<void> {
+    if (signal.aborted) {
+      await this.cancel(consumerTag);
+      throw this.createAbortError(signal, 'consume');
+    }
+
+    signal.addEventListener(
+      'abort',
+      () => {
+        if (!this.consumers.has(consumerTag)) {
+          return;
+        }
+        logger.info(
+          'Cancelling consumer - signal aborted',
+          'RabbitMQClient.cancelConsumerOnAbort',
+          {
+            consumerTag,
+          },
+        );
+        this.cancel(consumerTag).catch((error: unknown) => {
+          logger.warn('Failed to cancel aborted consumer', 'RabbitMQClient.cancelConsumerOnAbort', {
+            consumerTag,
+            error: this.formatError(error),
+          });
+        });
+      },
+      { once: true },
+    );
+  }
+
+  /**
+   * Starts a consumer on the given channel. Messages are acknowledged on the channel
+   * that delivered them, and deliveries being processed are counted per channel so
+   * the channel can be drained before it is closed.
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Channel to consume on
+   * @param {string} queue - Queue name to consume from
+   * @param {ConsumeCallback} onMessage - Message handler function
+   * @param {ConsumeOptions} options - Consume options with optional timeout and manualAck
+   * @param {string} [consumerTag] - Consumer tag to reuse when moving an existing consumer
+   * @returns {Promise<string>} Promise resolving to consumer tag
+   */
+  private async startConsumer(
+    channel: Channel | ConfirmChannel,
+    queue: string,
+    onMessage: ConsumeCallback,
+    options: ConsumeOptions,
+    consumerTag?: string,
+  ): Promise<string> {
+    const { manualAck = false, timeout = 30000, prefetch: _prefetch, ...consumeOptions } = options;
+
+    const reply = await channel.consume(
+      queue,
+      async (msg) => {
+        if (msg) {
+          this.deliveryChannels.set(msg, channel);
+        }
+        this.inFlightDeliveries.set(channel, (this.inFlightDeliveries.get(channel) ?? 0) + 1);
+        try {
+          const startTime = Date.now();
+
+          // Create a timeout promise
+          const timeoutPromise = new Promise<void>((_, reject) => {
+            setTimeout(() => reject(new Error('Message processing timeout')), timeout);
+          });
+
+          if (manualAck && msg) {
+            // Manual acknowledgment mode - pass actions to callback
+            const actions = this.createMessageActions(msg, queue, channel);
+            await Promise.race([onMessage(msg, actions), timeoutPromise]);
+          } else {
+            // Auto-acknowledgment mode
+            await Promise.race([onMessage(msg, undefined), timeoutPromise]);
+
+            // Auto-ack on success
+            if (msg && !consumeOptions.noAck) {
+              try {
+                channel.ack(msg);
+                logger.trace('Message acknowledged', 'RabbitMQClient.consume', {
+                  queue,
+                  deliveryTag: msg.fields.deliveryTag,
+                });
+              } catch (err) {
+                throw new Error(err instanceof Error ? err.message : 'Ack failed');
+              }
+            }
+          }
+
+          await this.updateMetrics('received');
+
+          const processingTime = Date.now() - startTime;
+          this.metrics.avgProcessingTime = (this.metrics.avgProcessingTime + processingTime) / 2;
+        } catch (error) {
+          logger.error('Message processing failed', 'RabbitMQClient.consume', {
+            error: this.formatError(error),
+            queue,
+            deliveryTag: msg?.fields.deliveryTag,
+          });
+
+          // Auto-nack on error (only in auto-ack mode)
+          if (!manualAck && msg && !consumeOptions.noAck) {
+            try {
+              channel.nack(msg, false, true);
+              logger.debug('Message nacked and requeued', 'RabbitMQClient.consume', {
+                queue,
+                deliveryTag: msg.fields.deliveryTag,
+              });
+            } catch (err) {
+              logger.error('Failed to nack message', 'RabbitMQClient.consume', {
+                error: this.formatError(err),
+              });
+            }
+          }
+          await this.handleError(error);
+        } finally {
+          this.inFlightDeliveries.set(channel, (this.inFlightDeliveries.get(channel) ?? 1) - 1);
+        }
+      },
+      consumerTag ? { ...consumeOptions, consumerTag } : consumeOptions,
+    );
+
+    return reply.consumerTag;
+  }
+
+  /**
+   * Opens a channel dedicated to one consumer and applies its prefetch. Errors on the channel
+   * restart the consumer that owns it on a new channel.
+   *
+   * @private
+   * @param {ConsumeOptions} options - Consume options with optional prefetch
+   * @returns {Promise<Channel>} Promise resolving to the new channel
+   * @throws {Error} If the connection is not established or the channel cannot be opened
+   */
+  private async openConsumerChannel(options: ConsumeOptions): Promise<Channel> {
+    if (!this.connection) {
+      throw new Error('Connection not established');
+    }
+
+    const channel = await this.connection.createChannel();
+    this.watchChannel(channel, 'consumer', {
+      onError: () => {
+        const consumerTag = this.findConsumerTag(channel);
+        if (consumerTag !== undefined) {
+          this.recoverConsumer(consumerTag).catch((error: unknown) =>
+            this.emit('error', this.ensureError(error)),
+          );
+        }
+      },
+    });
+
+    const prefetch = options.prefetch ?? this.options.prefetchCount;
+    if (prefetch) {
+      await channel.prefetch(prefetch);
+    }
+    return channel;
+  }
+
+  /**
+   * Finds the consumer a channel is dedicated to
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Consumer channel
+   * @returns {string | undefined} Consumer tag, undefined if no consumer owns the channel
+   */
+  private findConsumerTag(channel: Channel | ConfirmChannel): string | undefined {
+    for (const [consumerTag, consumer] of this.consumers) {
+      if (consumer.channel === channel) {
+        return consumerTag;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Restarts a consumer whose channel failed on a new channel, keeping its consumer tag.
+   * Retries as channel recovery does; a consumer that cannot be restarted is dropped. While
+   * the connection is down, the consumer is left to be restarted after the reconnection.
+   *
+   * @private
+   * @param {string} consumerTag - Tag of the consumer
+   * @returns {Promise<void>}
+   */
+  private async recoverConsumer(consumerTag: string): Promise<void> {
+    const consumer = this.consumers.get(consumerTag);
+    if (!consumer || !this.isEstablished() || !this.isConnectionOpen(this.connection)) {
+      return;
+    }
+
+    const maxRetries = this.options.channelOptions?.maxRetries || 3;
+    const recoveryPolicy = this.options.retryPolicy
+      ? this.retryPolicy
+      : new FixedBackoff({ initialDelay: this.options.channelOptions?.retryDelay || 1000 });
+    const startedAt = Date.now();
+    let previousDelay: number | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.restartConsumer(consumerTag, consumer);
+        logger.info('Consumer recovered on a new channel', 'RabbitMQClient.recoverConsumer', {
+          consumerTag,
+          queue: consumer.queue,
+        });
+        this.emit('consumerRecovered', consumerTag, consumer.queue);
+        return;
+      } catch (error) {
+        logger.error(
+          `Failed to recover consumer, attempt ${attempt + 1}/${maxRetries}`,
+          'RabbitMQClient.recoverConsumer',
+          {
+            error: this.formatError(error),
+            consumerTag,
+            queue: consumer.queue,
+          },
+        );
+        const delay: number | null =
+          attempt < maxRetries - 1
+            ? recoveryPolicy.nextDelay({
+                attempt,
+                elapsed: Date.now() - startedAt,
+                previousDelay,
+                error: this.ensureError(error),
+              })
+            : null;
+        if (delay === null) {
+          this.consumers.delete(consumerTag);
+          this.emit('consumerFailed', consumerTag, consumer.queue, this.ensureError(error));
           return;
         }
-        acknowledged = true;
-        try {
-          this.defaultChannel?.reject(msg, requeue);
-          logger.trace('Message manually rejected', 'RabbitMQClient.consume', {
-            queue,
-            deliveryTag: msg.fields.deliveryTag,
-            requeue,
-          });
-        } catch (err) {
-          throw new Error(err instanceof Error ? err.message : 'Reject failed');
+        previousDelay = delay;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (this.consumers.get(consumerTag) !== consumer || !this.isEstablished()) {
+          return;
         }
-      },
-    };
+      }
+    }
   }
 
   /**
-   * Consumes messages from a queue with improved async handling
+   * Starts a registered consumer on a new channel of the current connection
+   *
+   * @private
+   * @param {string} consumerTag - Tag of the consumer
+   * @param {ConsumerRegistration} consumer - Consumer to restart
+   * @returns {Promise<void>}
+   * @throws {Error} If the channel cannot be opened or consuming fails
+   */
+  private async restartConsumer(
+    consumerTag: string,
+    consumer: ConsumerRegistration,
+  ): Promise<void> {
+    const channel = await this.openConsumerChannel(consumer.options);
+    try {
+      await this.startConsumer(
+        channel,
+        consumer.queue,
+        consumer.onMessage,
+        consumer.options,
+        consumerTag,
+      );
+    } catch (error) {
+      await channel.close().catch(() => {
+        /* ignore close errors */
+      });
+      throw error;
+    }
+    consumer.channel = channel;
+  }
+
+  /**
+   * Restarts every consumer after a reconnection. Consumers that fail to start are dropped.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async restoreConsumers(): Promise<void> {
+    for (const [consumerTag, consumer] of this.consumers) {
+      try {
+        await this.restartConsumer(consumerTag, consumer);
+      } catch (error) {
+        logger.error('Failed to restore consumer', 'RabbitMQClient.restoreConsumers', {
+          error: this.formatError(error),
+          consumerTag,
+          queue: consumer.queue,
+        });
+        this.consumers.delete(consumerTag);
+        this.emit('consumerFailed', consumerTag, consumer.queue, this.ensureError(error));
+      }
+    }
+    if (this.consumers.size > 0) {
+      logger.info('Consumers restored', 'RabbitMQClient.restoreConsumers', {
+        consumers: this.consumers.size,
+      });
+    }
+  }
+
+  /**
+   * Enhanced metrics collection with async capabilities
    *
    * @public
-   * @param {string} queue - Queue name to consume from
-   * @param {ConsumeCallback} onMessage - Message handler function
-   * @param {ConsumeOptions} options - Consume options with optional timeout and manualAck
-   * @returns {Promise<string>} Promise resolving to consumer tag
-   * @throws {Error} If channel is not available or consumption fails
+   * @param {'sent' | 'received' | 'error' | 'reconnect'} type - Type of metric to update
+   * @returns {Promise<void>}
    *
    * @example
    * ```typescript
-   * // Auto-acknowledgment mode (default)
-   * const consumerTag = await client.consume('my-queue', async (msg) => {
-   *   if (msg) {
-   *     console.log('Received:', msg.content.toString());
-   *     // Message will be automatically acknowledged on success
-   *   }
-   * }, { noAck: false, timeout: 30000 });
+   * await client.updateMetrics('sent');
+   * await client.updateMetrics('received');
+   * ```
+   */
+  public async updateMetrics(type: 'sent' | 'received' | 'error' | 'reconnect'): Promise<void> {
+    try {
+      switch (type) {
+        case 'sent':
+          this.metrics.messagesSent++;
+          break;
+        case 'received':
+          this.metrics.messagesReceived++;
+          break;
+        case 'error':
+          this.metrics.errors++;
+          break;
+        case 'reconnect':
+          this.metrics.reconnections++;
+          this.metrics.lastReconnectTime = new Date();
+          break;
+      }
+
+      logger.trace('Metrics updated', 'RabbitMQClient.updateMetrics', {
+        type,
+        currentMetrics: this.metrics,
+      });
+
+      // Emit metrics update event asynchronously
+      await new Promise<void>((resolve) => {
+        process.nextTick(() => {
+          this.emit('metrics', { ...this.metrics });
+          resolve();
+        });
+      });
+    } catch (error) {
+      logger.error('Failed to update metrics', 'RabbitMQClient.updateMetrics', {
+        error: this.formatError(error),
+        type,
+      });
+      await this.handleError(error);
+    }
+  }
+
+  /**
+   * Returns the state of the client's connection. With `separateConnections`, this is the
+   * publishing connection; the consuming connection reports through `stateChange` events.
    *
-   * // Manual acknowledgment mode
-   * await client.consume('my-queue', async (msg, actions) => {
-   *   if (msg && actions) {
-   *     try {
-   *       await processMessage(msg);
-   *       await actions.ack(); // Manually acknowledge
-   *     } catch (error) {
-   *       await actions.nack(true); // Requeue on failure
-   *       // OR: await actions.reject(false); // Send to DLQ
-   *     }
-   *   }
-   * }, { manualAck: true });
+   * @public
+   * @returns {ConnectionState} Current connection state
+   *
+   * @example
+   * ```typescript
+   * if (client.getState() === 'reconnecting') {
+   *   console.log('Waiting for RabbitMQ to come back');
+   * }
    * ```
    */
-  public async consume(
-    queue: string,
-    onMessage: ConsumeCallback,
-    options: ConsumeOptions = {},
-  ): Promise<string> {
-    const { manualAck = false, timeout = 30000, ...consumeOptions } = options;
+  public getState(): ConnectionState {
+    return this.state;
+  }
 
-    logger.debug('Setting up message consumer', 'RabbitMQClient.consume', {
-      queue,
-      options: { ...options, timeout, manualAck },
-    });
+  /**
+   * Checks whether the broker is blocking any of the client's connections, e.g. because of
+   * a memory or disk alarm
+   *
+   * @public
+   * @returns {boolean} True while a connection is blocked
+   *
+   * @example
+   * ```typescript
+   * app.get('/ready', (_req, res) => res.sendStatus(client.isBlocked() ? 503 : 200));
+   * ```
+   */
+  public isBlocked(): boolean {
+    return this.blockedState !== null || (this.consumerClient?.isBlocked() ?? false);
+  }
 
-    this.ensureChannel();
-    if (!this.defaultChannel) {
-      const error = new Error('Channel not available');
-      logger.error('Consumer setup failed - no channel', 'RabbitMQClient.consume', {
-        error: error.message,
-        queue,
+  /**
+   * Applies `blockedPublishPolicy` while the connection is blocked. Resolves immediately
+   * when the connection is not blocked or no policy is configured.
+   *
+   * @private
+   * @param {string} operation - Publishing operation, for errors and logs
+   * @param {number} [count=1] - Number of messages being published
+   * @param {AbortSignal} [signal] - Releases the held publish when aborted
+   * @returns {Promise<void>} Promise that resolves when the publish may proceed
+   * @throws {ConnectionBlockedError} If the policy refuses the publish or the wait times out
+   * @throws {OperationAbortedError} If the signal is aborted while the publish is held
+   */
+  private async waitUntilUnblocked(
+    operation: string,
+    count = 1,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const policy = this.options.blockedPublishPolicy;
+    if (!this.blockedState || !policy) {
+      return;
+    }
+
+    const { reason } = this.blockedState;
+    if (policy.mode === 'fail') {
+      const error = new ConnectionBlockedError('Connection is blocked by the broker', {
+        operation,
+        reason,
+      });
+      logger.warn('Publish refused - connection blocked', 'RabbitMQClient.waitUntilUnblocked', {
+        operation,
+        reason,
       });
       throw error;
     }
 
-    try {
-      const { consumerTag } = await this.defaultChannel.consume(
-        queue,
-        async (msg) => {
-          try {
-            const startTime = Date.now();
+    if (policy.mode === 'buffer') {
+      const maxBuffered = policy.maxBuffered ?? CONSTANTS.DEFAULT_BLOCKED_PUBLISH_BUFFER;
+      const buffered = this.blockedPublishes.reduce((sum, held) => sum + held.count, 0);
+      if (buffered + count > maxBuffered) {
+        const error = new ConnectionBlockedError('Blocked publish buffer is full', {
+          operation,
+          reason,
+          maxBuffered,
+        });
+        logger.warn('Publish refused - buffer full', 'RabbitMQClient.waitUntilUnblocked', {
+          operation,
+          buffered,
+          maxBuffered,
+        });
+        throw error;
+      }
+    }
 
-            // Create a timeout promise
-            const timeoutPromise = new Promise<void>((_, reject) => {
-              setTimeout(() => reject(new Error('Message processing timeout')), timeout);
-            });
+    logger.debug('Holding publish until unblocked', 'RabbitMQClient.waitUntilUnblocked', {
+      operation,
+      mode: policy.mode,
+      held: this.blockedPublishes.length + 1,
+    });
 
-            if (manualAck && msg) {
-              // Manual acknowledgment mode - pass actions to callback
-              const actions = this.createMessageActions(msg, queue);
-              await Promise.race([onMessage(msg, actions), timeoutPromise]);
-            } else {
-              // Auto-acknowledgment mode
-              await Promise.race([onMessage(msg, undefined), timeoutPromise]);
-
-              // Auto-ack on success
-              if (msg && !consumeOptions.noAck) {
-                try {
-                  this.defaultChannel?.ack(msg);
-                  logger.trace('Message acknowledged', 'RabbitMQClient.consume', {
-                    queue,
-                    deliveryTag: msg.fields.deliveryTag,
-                  });
-                } catch (err) {
-                  throw new Error(err instanceof Error ? err.message : 'Ack failed');
-                }
-              }
-            }
+    let held: BlockedPublish | undefined;
+    const release = new Promise<void>((resolve, reject) => {
+      held = { count, resolve, reject, timer: null };
+      if (policy.mode === 'wait') {
+        const timeout = policy.timeout ?? CONSTANTS.DEFAULT_BLOCKED_PUBLISH_TIMEOUT;
+        held.timer = setTimeout(() => {
+          this.blockedPublishes = this.blockedPublishes.filter((other) => other !== held);
+          reject(
+            new ConnectionBlockedError(`Connection still blocked after ${timeout}ms`, {
+              operation,
+              reason,
+              timeout,
+            }),
+          );
+        }, timeout);
+      }
+      this.blockedPublishes.push(held);
+    });
+
+    await this.withAbort(release, signal, operation, () => {
+      if (held?.timer) {
+        clearTimeout(held.timer);
+      }
+      this.blockedPublishes = this.blockedPublishes.filter((other) => other !== held);
+    });
+  }
+
+  /**
+   * Lets every held publish proceed in arrival order, or fails them all
+   *
+   * @private
+   * @param {Error} [error] - Error to fail the held publishes with
+   * @returns {void}
+   */
+  private releaseBlockedPublishes(error?: Error): void {
+    const held = this.blockedPublishes;
+    this.blockedPublishes = [];
+
+    for (const publish of held) {
+      if (publish.timer) {
+        clearTimeout(publish.timer);
+      }
+      if (error) {
+        publish.reject(error);
+      } else {
+        publish.resolve();
+      }
+    }
+  }
+
+  /**
+   * Picks the confirm channel of the next publish following `publishChannelStrategy`
+   *
+   * @private
+   * @returns {ConfirmChannel} An idle pool channel, or the default channel if none is idle
+   * @throws {Error} If not connected or the default channel is not available
+   */
+  private selectPublishChannel(): ConfirmChannel {
+    this.ensureChannel();
+    const strategy = this.options.publishChannelStrategy ?? 'round-robin';
+    const candidates =
+      strategy === 'default'
+        ? []
+        : this.channelPool.channels.filter(
+            (channel) => !this.channelPool.inUse.has(channel) && this.isChannelOpen(channel),
+          );
+
+    const outstanding = (channel: Channel | ConfirmChannel): number =>
+      this.outstandingConfirms.get(channel) ?? 0;
+    // Every pool channel is leased or waiting for confirms: open another one for later publishes
+    if (strategy !== 'default' && candidates.every((candidate) => outstanding(candidate) > 0)) {
+      void this.growChannelPool();
+    }
+
+    if (candidates.length === 0) {
+      return this.defaultChannel as ConfirmChannel;
+    }
+
+    const channel =
+      strategy === 'least-outstanding'
+        ? candidates.reduce((best, candidate) =>
+            outstanding(candidate) < outstanding(best) ? candidate : best,
+          )
+        : candidates[this.publishCursor++ % candidates.length];
+
+    this.channelLastUsed.set(channel, Date.now());
+    logger.trace('Selected publish channel', 'RabbitMQClient.selectPublishChannel', {
+      strategy,
+      candidates: candidates.length,
+      outstanding: outstanding(channel),
+    });
+    return channel as ConfirmChannel;
+  }
+
+  /**
+   * Counts a publish awaiting its confirmation on a channel, or its confirmation
+   *
+   * @private
+   * @param {Channel | ConfirmChannel} channel - Channel the message was published on
+   * @param {number} delta - 1 when publishing, -1 when confirmed or rejected
+   * @returns {void}
+   */
+  private trackConfirm(channel: Channel | ConfirmChannel, delta: number): void {
+    this.outstandingConfirms.set(
+      channel,
+      Math.max(0, (this.outstandingConfirms.get(channel) ?? 0) + delta),
+    );
+  }
 
-            await this.updateMetrics('received');
+  /**
+   * Returns the plain channel of fire-and-forget publishes, opening it on first use or after
+   * it was closed
+   *
+   * @private
+   * @returns {Promise<Channel>} Promise resolving to the open channel
+   * @throws {Error} If not connected or the channel cannot be opened
+   */
+  private async getFireAndForgetChannel(): Promise<Channel> {
+    if (!this.connection) {
+      throw new Error('Connection not established');
+    }
 
-            const processingTime = Date.now() - startTime;
-            this.metrics.avgProcessingTime = (this.metrics.avgProcessingTime + processingTime) / 2;
-          } catch (error) {
-            logger.error('Message processing failed', 'RabbitMQClient.consume', {
-              error: this.formatError(error),
-              queue,
-              deliveryTag: msg?.fields.deliveryTag,
-            });
+    if (this.fireAndForgetChannel) {
+      const channel = await this.fireAndForgetChannel;
+      if (this.isChannelOpen(channel)) {
+        return channel;
+      }
+      this.fireAndForgetChannel = null;
+    }
 
-            // Auto-nack on error (only in auto-ack mode)
-            if (!manualAck && msg && !consumeOptions.noAck) {
-              try {
-                this.defaultChannel?.nack(msg, false, true);
-                logger.debug('Message nacked and requeued', 'RabbitMQClient.consume', {
-                  queue,
-                  deliveryTag: msg.fields.deliveryTag,
-                });
-              } catch (err) {
-                logger.error('Failed to nack message', 'RabbitMQClient.consume', {
-                  error: this.formatError(err),
-                });
-              }
-            }
-            await this.handleError(error);
+    const opening = this.connection.createChannel().then((channel) => {
+      this.watchChannel(channel, 'fire-and-forget', {
+        onClose: () => {
+          if (this.fireAndForgetChannel === opening) {
+            this.fireAndForgetChannel = null;
           }
         },
-        consumeOptions,
-      );
-
-      logger.info('Consumer setup completed', 'RabbitMQClient.consume', {
-        queue,
-        consumerTag,
-        options: { ...options, manualAck },
       });
+      logger.debug('Opened fire-and-forget channel', 'RabbitMQClient.getFireAndForgetChannel');
+      return channel;
+    });
+    this.fireAndForgetChannel = opening;
 
-      return consumerTag;
+    try {
+      return await opening;
     } catch (error) {
-      logger.error('Failed to setup consumer', 'RabbitMQClient.consume', {
-        error: this.formatError(error),
-        queue,
-      });
-      await this.handleError(error);
-      throw this.ensureError(error);
+      if (this.fireAndForgetChannel === opening) {
+        this.fireAndForgetChannel = null;
+      }
+      throw error;
     }
   }
 
   /**
-   * Enhanced metrics collection with async capabilities
+   * Writes a message without waiting for a confirm. While the channel's write buffer is
+   * full, waits for it to drain first, and after a write that fills it, until it drained.
    *
-   * @public
-   * @param {'sent' | 'received' | 'error' | 'reconnect'} type - Type of metric to update
+   * @private
+   * @param {Channel} channel - Channel to write to
+   * @param {() => boolean} write - Writes the message, returning false once the buffer is full
+   * @param {number} timeout - Maximum wait for the buffer to drain in milliseconds
+   * @param {AbortSignal | undefined} signal - Aborting the signal stops waiting
+   * @param {string} operation - Name of the operation, used in errors
    * @returns {Promise<void>}
+   * @throws {PublishTimeoutError} If the buffer does not drain within the timeout
+   * @throws {OperationAbortedError} If the signal is aborted while waiting
+   */
+  private async writeWithBackpressure(
+    channel: Channel,
+    write: () => boolean,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    operation: string,
+  ): Promise<void> {
+    const pending = this.drainWaits.get(channel);
+    if (pending) {
+      await this.withAbort(pending, signal, operation);
+    }
+    if (!write()) {
+      await this.withAbort(this.waitForDrain(channel, timeout), signal, operation);
+    }
+  }
+
+  /**
+   * Waits for a channel's `drain` event, shared by every publish waiting on the channel
    *
-   * @example
-   * ```typescript
-   * await client.updateMetrics('sent');
-   * await client.updateMetrics('received');
-   * ```
+   * @private
+   * @param {Channel} channel - Channel with a full write buffer
+   * @param {number} timeout - Maximum wait in milliseconds
+   * @returns {Promise<void>} Promise resolving once the channel drained
+   * @throws {PublishTimeoutError} If the channel does not drain within the timeout
    */
-  public async updateMetrics(type: 'sent' | 'received' | 'error' | 'reconnect'): Promise<void> {
-    try {
-      switch (type) {
-        case 'sent':
-          this.metrics.messagesSent++;
-          break;
-        case 'received':
-          this.metrics.messagesReceived++;
-          break;
-        case 'error':
-          this.metrics.errors++;
-          break;
-        case 'reconnect':
-          this.metrics.reconnections++;
-          this.metrics.lastReconnectTime = new Date();
-          break;
-      }
+  private waitForDrain(channel: Channel, timeout: number): Promise<void> {
+    const pending = this.drainWaits.get(channel);
+    if (pending) {
+      return pending;
+    }
 
-      logger.trace('Metrics updated', 'RabbitMQClient.updateMetrics', {
-        type,
-        currentMetrics: this.metrics,
-      });
+    logger.debug('Waiting for channel to drain', 'RabbitMQClient.waitForDrain', { timeout });
+    const drained = new Promise<void>((resolve, reject) => {
+      const onDrain = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        channel.off('drain', onDrain);
+        reject(
+          new PublishTimeoutError('Timed out waiting for the channel to drain', {
+            drainTimeout: timeout,
+          }),
+        );
+      }, timeout);
+      channel.once('drain', onDrain);
+    }).finally(() => this.drainWaits.delete(channel));
+    this.drainWaits.set(channel, drained);
+    return drained;
+  }
 
-      // Emit metrics update event asynchronously
-      await new Promise<void>((resolve) => {
-        process.nextTick(() => {
-          this.emit('metrics', { ...this.metrics });
-          resolve();
+  /**
+   * Runs a publish, retrying failures up to `publishRetries` times as the retry policy decides.
+   * Circuit breaker and blocked connection refusals and aborts are not retried.
+   *
+   * @private
+   * @param {string} operation - Publishing operation, used in logs
+   * @param {() => Promise<void>} publishOnce - Performs one publish attempt
+   * @param {AbortSignal} [signal] - Stops retrying when aborted
+   * @returns {Promise<void>}
+   * @throws {Error} The error of the last attempt
+   */
+  private async withPublishRetries(
+    operation: string,
+    publishOnce: () => Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const maxRetries = this.options.publishRetries ?? 0;
+    const startedAt = Date.now();
+    let previousDelay: number | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await publishOnce();
+        return;
+      } catch (error) {
+        const err = this.ensureError(error);
+        if (
+          attempt >= maxRetries ||
+          err instanceof CircuitBreakerError ||
+          err instanceof ConnectionBlockedError ||
+          err instanceof OperationAbortedError
+        ) {
+          throw err;
+        }
+
+        const delay = this.retryPolicy.nextDelay({
+          attempt,
+          elapsed: Date.now() - startedAt,
+          previousDelay,
+          error: err,
         });
-      });
-    } catch (error) {
-      logger.error('Failed to update metrics', 'RabbitMQClient.updateMetrics', {
-        error: this.formatError(error),
-        type,
-      });
-      await this.handleError(error);
+        if (delay === null) {
+          throw err;
+        }
+
+        logger.warn('Retrying failed publish', 'RabbitMQClient.withPublishRetries', {
+          operation,
+          attempt: attempt + 1,
+          maxRetries,
+          delay,
+          error: this.formatError(err),
+        });
+        previousDelay = delay;
+        await this.sleep(delay, signal, operation);
+      }
     }
   }
 
@@ -2323,8 +5765,15 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * @param {string} exchange - Exchange name
    * @param {string} routingKey - Routing key
    * @param {Buffer} content - Message content
-   * @param {Options.Publish & { timeout?: number }} options - Publish options with optional timeout
-   * @returns {Promise<void>} Promise that resolves when message is published
+   * @param {Options.Publish & AbortOptions & DeliveryOptions & { timeout?: number }} options -
+   * Publish options with optional timeout, delivery guarantee and abort signal. An aborted
+   * publish may still reach the broker.
+   * @returns {Promise<void>} Promise that resolves when message is confirmed, or written with
+   * `fireAndForget`
+   * @throws {CircuitBreakerError} If the circuit breaker is not closed
+   * @throws {ConnectionBlockedError} If `blockedPublishPolicy` refuses the publish while blocked
+   * @throws {OperationAbortedError} If the signal is aborted before the publish is confirmed
+   * @throws {PublishTimeoutError} If a `fireAndForget` channel does not drain within the timeout
    * @throws {Error} If channel is not available or publishing fails
    *
    * @example
@@ -2333,70 +5782,103 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    *   'my-exchange',
    *   'routing.key',
    *   Buffer.from('Hello World'),
-   *   { persistent: true, timeout: 5000 }
+   *   { persistent: true, timeout: 5000, signal: request.signal }
    * );
+   *
+   * // Telemetry that may be lost
+   * await client.publish('metrics', 'cpu', payload, { deliveryGuarantee: 'fireAndForget' });
    * ```
    */
   public async publish(
     exchange: string,
     routingKey: string,
     content: Buffer,
-    options: Options.Publish & { timeout?: number } = {},
+    options: Options.Publish & AbortOptions & DeliveryOptions & { timeout?: number } = {},
   ): Promise<void> {
+    const { signal, deliveryGuarantee, ...publishOptions } = options;
+    const fireAndForget = (deliveryGuarantee ?? this.options.deliveryGuarantee) === 'fireAndForget';
     logger.debug('Publishing message', 'RabbitMQClient.publish', {
       exchange,
       routingKey,
       contentLength: content.length,
-      options: { ...options, timeout: options.timeout || 30000 },
+      options: { ...publishOptions, timeout: options.timeout || 30000 },
     });
 
-    this.ensureChannel();
-    if (!this.defaultChannel) {
-      const error = new Error('Channel not available');
-      logger.error('Publish failed - no channel', 'RabbitMQClient.publish', {
-        error: error.message,
-        exchange,
-        routingKey,
-      });
-      throw error;
-    }
+    await this.withPublishRetries(
+      'publish',
+      async () => {
+        this.throwIfAborted(signal, 'publish');
+        this.checkCircuitBreaker('publish');
+        await this.waitUntilUnblocked('publish', 1, signal);
+        this.ensureChannel();
+        if (!this.defaultChannel) {
+          const error = new Error('Channel not available');
+          logger.error('Publish failed - no channel', 'RabbitMQClient.publish', {
+            error: error.message,
+            exchange,
+            routingKey,
+          });
+          throw error;
+        }
 
-    try {
-      await new Promise<void>((resolve, reject) => {
-        const timeoutId = setTimeout(() => {
-          reject(new Error('Publish operation timeout'));
-        }, options.timeout || 30000);
-
-        this.defaultChannel?.publish(exchange, routingKey, content, options, (err) => {
-          clearTimeout(timeoutId);
-          if (err) {
-            logger.error('Message publish failed', 'RabbitMQClient.publish', {
-              error: this.formatError(err),
-              exchange,
-              routingKey,
-            });
-            reject(this.ensureError(err));
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        try {
+          if (fireAndForget) {
+            const channel = await this.getFireAndForgetChannel();
+            await this.writeWithBackpressure(
+              channel,
+              () => channel.publish(exchange, routingKey, content, publishOptions),
+              this.options.publishDrainTimeout ?? CONSTANTS.DEFAULT_PUBLISH_DRAIN_TIMEOUT,
+              signal,
+              'publish',
+            );
           } else {
-            logger.trace('Message published successfully', 'RabbitMQClient.publish', {
-              exchange,
-              routingKey,
-              contentLength: content.length,
+            const channel = this.selectPublishChannel();
+            const confirmed = new Promise<void>((resolve, reject) => {
+              timeoutId = setTimeout(() => {
+                reject(new Error('Publish operation timeout'));
+              }, options.timeout || 30000);
+
+              this.trackConfirm(channel, 1);
+              channel.publish(exchange, routingKey, content, publishOptions, (err) => {
+                this.trackConfirm(channel, -1);
+                clearTimeout(timeoutId);
+                if (err) {
+                  logger.error('Message publish failed', 'RabbitMQClient.publish', {
+                    error: this.formatError(err),
+                    exchange,
+                    routingKey,
+                  });
+                  reject(this.ensureError(err));
+                } else {
+                  logger.trace('Message published successfully', 'RabbitMQClient.publish', {
+                    exchange,
+                    routingKey,
+                    contentLength: content.length,
+                  });
+                  resolve();
+                }
+              });
             });
-            resolve();
+            await this.withAbort(confirmed, signal, 'publish', () => clearTimeout(timeoutId));
           }
-        });
-      });
 
-      await this.updateMetrics('sent');
-    } catch (error) {
-      logger.error('Failed to publish message', 'RabbitMQClient.publish', {
-        error: this.formatError(error),
-        exchange,
-        routingKey,
-      });
-      await this.handleError(error);
-      throw this.ensureError(error);
-    }
+          await this.updateMetrics('sent');
+        } catch (error) {
+          if (error instanceof OperationAbortedError) {
+            throw error;
+          }
+          logger.error('Failed to publish message', 'RabbitMQClient.publish', {
+            error: this.formatError(error),
+            exchange,
+            routingKey,
+          });
+          await this.handleError(error);
+          throw this.ensureError(error);
+        }
+      },
+      signal,
+    );
   }
 
   /**
@@ -2624,8 +6106,13 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * @public
    * @param {string} queue - Queue name to send to
    * @param {Buffer} content - Message content
-   * @param {Options.Publish} options - Publish options
+   * @param {Options.Publish & AbortOptions & DeliveryOptions} options - Publish options with
+   * optional delivery guarantee and abort signal. An aborted send may still reach the broker.
    * @returns {Promise<void>}
+   * @throws {CircuitBreakerError} If the circuit breaker is not closed
+   * @throws {ConnectionBlockedError} If `blockedPublishPolicy` refuses the publish while blocked
+   * @throws {OperationAbortedError} If the signal is aborted before the send is confirmed
+   * @throws {PublishTimeoutError} If a `fireAndForget` channel does not drain within 30 seconds
    * @throws {Error} If channel is not available or send fails
    *
    * @example
@@ -2639,48 +6126,77 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   public async sendToQueue(
     queue: string,
     content: Buffer,
-    options: Options.Publish = {},
+    options: Options.Publish & AbortOptions & DeliveryOptions = {},
   ): Promise<void> {
+    const { signal, deliveryGuarantee, ...publishOptions } = options;
+    const fireAndForget = (deliveryGuarantee ?? this.options.deliveryGuarantee) === 'fireAndForget';
     logger.debug('Sending message to queue', 'RabbitMQClient.sendToQueue', {
       queue,
       contentLength: content.length,
-      options,
+      options: publishOptions,
     });
 
-    this.ensureChannel();
-    if (!this.defaultChannel) {
-      const error = new Error('Channel not available');
-      logger.error('Send to queue failed - no channel', 'RabbitMQClient.sendToQueue', {
-        error: error.message,
-        queue,
-      });
-      throw error;
-    }
+    await this.withPublishRetries(
+      'sendToQueue',
+      async () => {
+        this.throwIfAborted(signal, 'sendToQueue');
+        this.checkCircuitBreaker('sendToQueue');
+        await this.waitUntilUnblocked('sendToQueue', 1, signal);
+        this.ensureChannel();
+        if (!this.defaultChannel) {
+          const error = new Error('Channel not available');
+          logger.error('Send to queue failed - no channel', 'RabbitMQClient.sendToQueue', {
+            error: error.message,
+            queue,
+          });
+          throw error;
+        }
 
-    try {
-      await new Promise<void>((resolve, reject) => {
-        this.defaultChannel?.sendToQueue(queue, content, options, (err) => {
-          if (err) {
-            logger.error('Send to queue failed', 'RabbitMQClient.sendToQueue', {
-              error: this.formatError(err),
-              queue,
-            });
-            reject(this.ensureError(err));
+        try {
+          if (fireAndForget) {
+            const channel = await this.getFireAndForgetChannel();
+            await this.writeWithBackpressure(
+              channel,
+              () => channel.sendToQueue(queue, content, publishOptions),
+              this.options.publishDrainTimeout ?? CONSTANTS.DEFAULT_PUBLISH_DRAIN_TIMEOUT,
+              signal,
+              'sendToQueue',
+            );
           } else {
-            logger.trace('Message sent to queue successfully', 'RabbitMQClient.sendToQueue', {
-              queue,
-              contentLength: content.length,
+            const channel = this.selectPublishChannel();
+            const confirmed = new Promise<void>((resolve, reject) => {
+              this.trackConfirm(channel, 1);
+              channel.sendToQueue(queue, content, publishOptions, (err) => {
+                this.trackConfirm(channel, -1);
+                if (err) {
+                  logger.error('Send to queue failed', 'RabbitMQClient.sendToQueue', {
+                    error: this.formatError(err),
+                    queue,
+                  });
+                  reject(this.ensureError(err));
+                } else {
+                  logger.trace('Message sent to queue successfully', 'RabbitMQClient.sendToQueue', {
+                    queue,
+                    contentLength: content.length,
+                  });
+                  resolve();
+                }
+              });
             });
-            resolve();
+            await this.withAbort(confirmed, signal, 'sendToQueue');
           }
-        });
-      });
 
-      await this.updateMetrics('sent');
-    } catch (error) {
-      await this.handleError(error);
-      throw this.ensureError(error);
-    }
+          await this.updateMetrics('sent');
+        } catch (error) {
+          if (error instanceof OperationAbortedError) {
+            throw error;
+          }
+          await this.handleError(error);
+          throw this.ensureError(error);
+        }
+      },
+      signal,
+    );
   }
 
   /**
@@ -2688,8 +6204,10 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    *
    * @public
    * @param {string} queue - Queue name to get message from
-   * @param {Options.Get} options - Get options (noAck defaults to false)
+   * @param {Options.Get & AbortOptions} options - Get options (noAck defaults to false) with
+   * optional abort signal. A message arriving after the abort is requeued.
    * @returns {Promise<Message | false>} Message or false if queue is empty
+   * @throws {OperationAbortedError} If the signal is aborted before the broker replies
    * @throws {Error} If channel is not available or get fails
    *
    * @example
@@ -2703,12 +6221,21 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * }
    * ```
    */
-  public async get(queue: string, options: Options.Get = {}): Promise<Message | false> {
+  public async get(
+    queue: string,
+    options: Options.Get & AbortOptions = {},
+  ): Promise<Message | false> {
+    if (this.consumerClient) {
+      return this.consumerClient.get(queue, options);
+    }
+
+    const { signal, ...getOptions } = options;
     logger.debug('Getting message from queue', 'RabbitMQClient.get', {
       queue,
-      options,
+      options: getOptions,
     });
 
+    this.throwIfAborted(signal, 'get');
     this.ensureChannel();
     if (!this.defaultChannel) {
       const error = new Error('Channel not available');
@@ -2720,9 +6247,23 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     }
 
     try {
-      const msg = await this.defaultChannel.get(queue, options);
+      const channel = this.defaultChannel;
+      const reply = channel.get(queue, getOptions);
+      const msg = await this.withAbort(reply, signal, 'get', () => {
+        // Hand a message that arrives too late back to the queue
+        reply
+          .then((late) => {
+            if (late && !getOptions.noAck) {
+              channel.nack(late, false, true);
+            }
+          })
+          .catch(() => {
+            /* the caller has already been rejected */
+          });
+      });
 
       if (msg) {
+        this.deliveryChannels.set(msg, this.defaultChannel);
         logger.trace('Message retrieved from queue', 'RabbitMQClient.get', {
           queue,
           deliveryTag: msg.fields.deliveryTag,
@@ -2734,6 +6275,9 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
 
       return msg;
     } catch (error) {
+      if (error instanceof OperationAbortedError) {
+        throw error;
+      }
       logger.error('Failed to get message from queue', 'RabbitMQClient.get', {
         error: this.formatError(error),
         queue,
@@ -2761,12 +6305,17 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * ```
    */
   public ack(msg: Message, allUpTo = false): void {
+    if (this.consumerClient) {
+      this.consumerClient.ack(msg, allUpTo);
+      return;
+    }
+
     this.ensureChannel();
     if (!this.defaultChannel) {
       throw new Error('Channel not available');
     }
 
-    this.defaultChannel.ack(msg, allUpTo);
+    (this.deliveryChannels.get(msg) ?? this.defaultChannel).ack(msg, allUpTo);
     logger.trace('Message acknowledged', 'RabbitMQClient.ack', {
       deliveryTag: msg.fields.deliveryTag,
       allUpTo,
@@ -2796,12 +6345,17 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * ```
    */
   public nack(msg: Message, allUpTo = false, requeue = true): void {
+    if (this.consumerClient) {
+      this.consumerClient.nack(msg, allUpTo, requeue);
+      return;
+    }
+
     this.ensureChannel();
     if (!this.defaultChannel) {
       throw new Error('Channel not available');
     }
 
-    this.defaultChannel.nack(msg, allUpTo, requeue);
+    (this.deliveryChannels.get(msg) ?? this.defaultChannel).nack(msg, allUpTo, requeue);
     logger.trace('Message nacked', 'RabbitMQClient.nack', {
       deliveryTag: msg.fields.deliveryTag,
       allUpTo,
@@ -2831,12 +6385,17 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * ```
    */
   public reject(msg: Message, requeue = false): void {
+    if (this.consumerClient) {
+      this.consumerClient.reject(msg, requeue);
+      return;
+    }
+
     this.ensureChannel();
     if (!this.defaultChannel) {
       throw new Error('Channel not available');
     }
 
-    this.defaultChannel.reject(msg, requeue);
+    (this.deliveryChannels.get(msg) ?? this.defaultChannel).reject(msg, requeue);
     logger.trace('Message rejected', 'RabbitMQClient.reject', {
       deliveryTag: msg.fields.deliveryTag,
       requeue,
@@ -2844,7 +6403,8 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   }
 
   /**
-   * Cancels a consumer by its consumer tag
+   * Cancels a consumer by its consumer tag. The consumer's channel is closed once the
+   * messages it is processing are done, so they can still be acknowledged.
    *
    * @public
    * @param {string} consumerTag - Consumer tag returned from consume()
@@ -2859,6 +6419,10 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * ```
    */
   public async cancel(consumerTag: string): Promise<void> {
+    if (this.consumerClient) {
+      return this.consumerClient.cancel(consumerTag);
+    }
+
     logger.debug('Cancelling consumer', 'RabbitMQClient.cancel', { consumerTag });
 
     this.ensureChannel();
@@ -2872,7 +6436,12 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     }
 
     try {
-      await this.defaultChannel.cancel(consumerTag);
+      const consumer = this.consumers.get(consumerTag);
+      await (consumer?.channel ?? this.defaultChannel).cancel(consumerTag);
+      this.consumers.delete(consumerTag);
+      if (consumer) {
+        void this.closeConsumerChannel(consumer);
+      }
       logger.info('Consumer cancelled successfully', 'RabbitMQClient.cancel', { consumerTag });
     } catch (error) {
       logger.error('Failed to cancel consumer', 'RabbitMQClient.cancel', {
@@ -2885,24 +6454,86 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   }
 
   /**
-   * Sets the prefetch count for the channel
+   * Closes the channel of a cancelled consumer once its in-flight deliveries are processed
+   *
+   * @private
+   * @param {ConsumerRegistration} consumer - Cancelled consumer
+   * @param {number} [timeout] - Maximum wait for its deliveries, the consumer's timeout by default
+   * @returns {Promise<void>}
+   */
+  private async closeConsumerChannel(
+    consumer: ConsumerRegistration,
+    timeout = consumer.options.timeout ?? 30000,
+  ): Promise<void> {
+    try {
+      await this.drainChannels([consumer.channel], timeout);
+      if (this.isChannelOpen(consumer.channel)) {
+        await consumer.channel.close();
+      }
+    } catch (error) {
+      logger.debug('Error closing consumer channel', 'RabbitMQClient.closeConsumerChannel', {
+        error: this.formatError(error),
+        queue: consumer.queue,
+      });
+    }
+  }
+
+  /**
+   * Cancels every registered consumer on its channel and closes the channels once their
+   * in-flight deliveries are processed. The consumers are forgotten, so a later reconnect
+   * does not restart them.
+   *
+   * @private
+   * @param {number} [drainTimeout] - Maximum wait for deliveries, each consumer's timeout by
+   * default
+   * @returns {Promise<void>}
+   */
+  private async stopConsumers(drainTimeout?: number): Promise<void> {
+    const consumers = [...this.consumers];
+    this.consumers.clear();
+
+    for (const [consumerTag, consumer] of consumers) {
+      if (this.isChannelOpen(consumer.channel)) {
+        await consumer.channel.cancel(consumerTag).catch((error: unknown) => {
+          logger.debug('Error cancelling consumer', 'RabbitMQClient.stopConsumers', {
+            error: this.formatError(error),
+            consumerTag,
+          });
+        });
+      }
+    }
+    await Promise.all(
+      consumers.map(([, consumer]) => this.closeConsumerChannel(consumer, drainTimeout)),
+    );
+    logger.debug('Stopped consumers', 'RabbitMQClient.stopConsumers', {
+      count: consumers.length,
+    });
+  }
+
+  /**
+   * Sets the prefetch count of the default channel, which applies to `get()`. Consumers have
+   * channels of their own; set their prefetch with the `prefetch` consume option.
    *
    * @public
    * @param {number} count - Number of messages to prefetch
-   * @param {boolean} global - Apply globally to all consumers on channel (default: false)
+   * @param {boolean} global - Apply to the whole channel rather than per consumer (default: false)
    * @returns {Promise<void>}
    * @throws {Error} If channel is not available or prefetch fails
    *
    * @example
    * ```typescript
-   * // Set prefetch to 10 messages per consumer
+   * // Fetch at most 10 unacknowledged messages with get()
    * await client.prefetch(10);
    *
-   * // Set global prefetch for the channel
-   * await client.prefetch(100, true);
+   * // Limit each consumer instead
+   * await client.consume('my-queue', handler, { prefetch: 10 });
    * ```
    */
   public async prefetch(count: number, global = false): Promise<void> {
+    if (this.consumerClient) {
+      return this.consumerClient.prefetch(count, global);
+    }
+
     logger.debug('Setting prefetch count', 'RabbitMQClient.prefetch', { count, global });
 
     this.ensureChannel();
@@ -3127,28 +6758,53 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     }
   }
 
-  // Add new method for cluster node management
-  private async tryNextClusterNode(): Promise<AmqpConnection> {
+  /**
+   * Connects to the first reachable cluster node in the order chosen by the node selector
+   *
+   * Healthy nodes are preferred; if no node is healthy every configured node is tried.
+   * When maxAttempts exceeds the number of candidates, the ordered list is walked again.
+   *
+   * @private
+   * @param {number} timeout - Connection timeout per attempt in milliseconds
+   * @param {number} [maxAttempts] - Maximum connection attempts (default: one per candidate)
+   * @param {RetryPolicy} [retryPolicy] - Policy deciding the wait after every pass over the
+   * candidates (default: retry immediately)
+   * @param {AbortSignal} [signal] - Stops trying further nodes when aborted
+   * @returns {Promise<AmqpConnection>} Promise resolving to the established connection
+   * @throws {ClusterError} If every connection attempt fails
+   * @throws {OperationAbortedError} If the signal is aborted between attempts
+   */
+  private async tryNextClusterNode(
+    timeout?: number,
+    maxAttempts?: number,
+    retryPolicy?: RetryPolicy,
+    signal?: AbortSignal,
+  ): Promise<AmqpConnection> {
+    await this.discoverNodes();
+
     logger.debug('Trying to connect to next cluster node', 'RabbitMQClient.tryNextClusterNode', {
-      availableNodes: this.options.urls?.length || 0,
+      availableNodes: this.nodeUrls.length,
       activeNodesCount: this.activeNodes.size,
+      strategy: this.nodeSelector.name,
     });
 
-    if (!this.options.urls || this.options.urls.length === 0) {
-      const error = new Error('No RabbitMQ cluster nodes configured');
+    if (this.nodeUrls.length === 0) {
+      const error = new ConfigurationError('No RabbitMQ cluster nodes configured');
       logger.error('No cluster nodes configured', 'RabbitMQClient.tryNextClusterNode', {
         error: error.message,
       });
       throw error;
     }
 
-    // Initialize node tracking if not done
-    if (this.activeNodes.size === 0) {
-      this.options.urls.forEach((url) => {
+    // Initialize tracking of new nodes
+    const untrackedNodes = this.nodeUrls.filter((url) => !this.activeNodes.has(url));
+    if (untrackedNodes.length > 0) {
+      untrackedNodes.forEach((url) => {
         this.activeNodes.set(url, {
           healthy: true,
           lastChecked: new Date(),
           failureCount: 0,
+          successCount: 0,
         });
       });
       logger.debug('Initialized node tracking', 'RabbitMQClient.tryNextClusterNode', {
@@ -3156,127 +6812,138 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       });
     }
 
-    const timeout = this.options.clusterOptions?.retryConnectTimeout || 5000;
     const errors: Error[] = [];
 
     // Get available healthy nodes
-    const healthyNodes = [...this.activeNodes.entries()]
-      .filter(([_, status]) => status.healthy)
-      .map(([url]) => url);
+    const healthyNodes = this.nodeUrls.filter((url) => this.activeNodes.get(url)?.healthy);
 
     // If no healthy nodes, try all nodes
-    const nodesToTry = healthyNodes.length > 0 ? healthyNodes : this.options.urls;
+    const nodesToTry = healthyNodes.length > 0 ? healthyNodes : this.nodeUrls;
+
+    const sortedNodes = this.nodeSelector.order(nodesToTry, {
+      nodeStatus: this.activeNodes,
+      lastConnectedNode: this.currentNode,
+      nodeDescriptors: this.nodeDescriptors,
+    });
+    if (sortedNodes.length === 0) {
+      const error = new ClusterError('Node selector returned no nodes to try', {
+        strategy: this.nodeSelector.name,
+      });
+      logger.error('No nodes selected', 'RabbitMQClient.tryNextClusterNode', {
+        error: error.message,
+      });
+      throw error;
+    }
+
+    let attempts = maxAttempts ?? sortedNodes.length;
+    const startedAt = Date.now();
+    let previousDelay: number | null = null;
 
     logger.debug('Selecting nodes to try', 'RabbitMQClient.tryNextClusterNode', {
       healthyNodes: healthyNodes.length,
-      totalNodes: this.options.urls.length,
-      nodesToTry: nodesToTry.length,
+      totalNodes: this.nodeUrls.length,
+      nodesToTry: sortedNodes.length,
+      attempts,
     });
 
-    // Sort nodes based on strategy
-    const sortedNodes = this.getSortedNodes(nodesToTry);
-
-    for (const url of sortedNodes) {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      this.throwIfAborted(signal, 'connect');
+      const url = sortedNodes[attempt % sortedNodes.length] as string;
       try {
-        logger.debug('Attempting connection to cluster node', 'RabbitMQClient.tryNextClusterNode', {
-          url,
-        });
+        logger.debug(
+          `Connection attempt ${attempt + 1}/${attempts} to cluster node`,
+          'RabbitMQClient.tryNextClusterNode',
+          { url },
+        );
 
-        const connectOptions: ExtendedConnectOptions = {
-          heartbeat: this.options.heartbeat,
-          vhost: this.options.vhost,
-          timeout: timeout,
-        };
+        const connectOptions = await this.buildConnectOptions(timeout, 'connection', url);
 
+        const startTime = Date.now();
         const connection = (await amqplib.connect(
-          url,
+          this.getConnectTarget(url),
           connectOptions,
         )) as unknown as AmqpConnection;
 
         // Update node status
-        this.activeNodes.set(url, {
-          healthy: true,
-          lastChecked: new Date(),
-          failureCount: 0,
-        });
+        this.recordNodeSuccess(url, Date.now() - startTime, true);
+        this.scheduleCredentialsRefresh();
+        const previousNode = this.currentNode;
+        this.currentNode = url;
+        this.nodeSelector.onConnected?.(url);
+        if (previousNode && previousNode !== url) {
+          logger.info('Switched cluster node', 'RabbitMQClient.tryNextClusterNode', {
+            from: previousNode,
+            to: url,
+          });
+          this.emit('nodeSwitched', previousNode, url);
+        }
 
         logger.info('Successfully connected to cluster node', 'RabbitMQClient.tryNextClusterNode', {
           url,
+          strategy: this.nodeSelector.name,
         });
         return connection;
       } catch (error) {
         // Update node status
-        const nodeStatus = this.activeNodes.get(url) || {
-          healthy: true,
-          lastChecked: new Date(),
-          failureCount: 0,
-        };
-        nodeStatus.failureCount++;
-        nodeStatus.healthy = nodeStatus.failureCount < 3; // Mark unhealthy after 3 failures
-        nodeStatus.lastChecked = new Date();
-        this.activeNodes.set(url, nodeStatus);
+        const err = this.ensureError(error);
+        const nodeStatus = this.recordNodeFailure(url, err);
 
-        errors.push(this.ensureError(error));
+        errors.push(err);
+        this.nodeSelector.onConnectionFailed?.(url, err);
         logger.warn(
           `Failed to connect to cluster node: ${url}`,
           'RabbitMQClient.tryNextClusterNode',
           {
             error: this.formatError(error),
+            attempt: attempt + 1,
             nodeStatus,
           },
         );
-        continue;
+
+        // Wait before starting the next pass over the candidate nodes
+        if (retryPolicy && attempt + 1 < attempts && (attempt + 1) % sortedNodes.length === 0) {
+          const pass = (attempt + 1) / sortedNodes.length;
+          const delay = retryPolicy.nextDelay({
+            attempt: pass - 1,
+            elapsed: Date.now() - startedAt,
+            previousDelay,
+            error: err,
+          });
+          if (delay === null) {
+            logger.warn('Retry policy gave up connecting', 'RabbitMQClient.tryNextClusterNode', {
+              policy: retryPolicy.name,
+              attempts: attempt + 1,
+            });
+            attempts = attempt + 1;
+            break;
+          }
+
+          logger.debug(
+            'Waiting before the next pass over cluster nodes',
+            'RabbitMQClient.tryNextClusterNode',
+            {
+              policy: retryPolicy.name,
+              pass,
+              delay,
+            },
+          );
+          previousDelay = delay;
+          await this.sleep(delay, signal, 'connect');
+        }
       }
     }
 
-    const aggregateError = new AggregateError(errors, 'Failed to connect to any cluster nodes');
+    const clusterError = new ClusterError(`Failed to connect after ${attempts} attempts`, {
+      attempts,
+      nodes: sortedNodes,
+      errors: errors.map((e) => this.formatError(e)),
+    });
     logger.error('All cluster nodes failed', 'RabbitMQClient.tryNextClusterNode', {
-      error: aggregateError.message,
+      error: clusterError.message,
       attemptedNodes: sortedNodes.length,
       errors: errors.map((e) => this.formatError(e)),
     });
-    throw aggregateError;
-  }
-
-  /**
-   * Sorts cluster nodes based on failover strategy and priority
-   *
-   * @private
-   * @param {string[]} nodes - Array of node URLs to sort
-   * @returns {string[]} Sorted array of node URLs
-   */
-  private getSortedNodes(nodes: string[]): string[] {
-    const { failoverStrategy, clusterOptions } = this.options;
-
-    logger.debug('Sorting cluster nodes', 'RabbitMQClient.getSortedNodes', {
-      strategy: failoverStrategy,
-      nodeCount: nodes.length,
-      hasPriorityNodes: !!clusterOptions?.priorityNodes?.length,
-    });
-
-    // First handle priority nodes
-    const priorityNodes = clusterOptions?.priorityNodes || [];
-    let sortedNodes = [
-      ...priorityNodes.filter((node) => nodes.includes(node)),
-      ...nodes.filter((node) => !priorityNodes.includes(node)),
-    ];
-
-    // Then apply failover strategy
-    if (failoverStrategy === 'random') {
-      sortedNodes = sortedNodes.sort(() => Math.random() - 0.5);
-      logger.debug('Applied random sorting to nodes', 'RabbitMQClient.getSortedNodes');
-    } else if (failoverStrategy === 'round-robin') {
-      // Rotate array based on currentUrlIndex
-      const rotateAmount = this.currentUrlIndex % sortedNodes.length;
-      sortedNodes = [...sortedNodes.slice(rotateAmount), ...sortedNodes.slice(0, rotateAmount)];
-      this.currentUrlIndex++;
-      logger.debug('Applied round-robin sorting to nodes', 'RabbitMQClient.getSortedNodes', {
-        rotateAmount,
-        newIndex: this.currentUrlIndex,
-      });
-    }
-
-    return sortedNodes;
+    throw clusterError;
   }
 
   /**
@@ -3286,6 +6953,14 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
    * @returns {void}
    */
   private startNodeHealthCheck(): void {
+    // The publishing client checks the nodes on behalf of the consuming connection
+    if (this.role === 'consumer') {
+      return;
+    }
+    if (this.nodeHealthCheckTimer && this.intervalTimers.has(this.nodeHealthCheckTimer)) {
+      return;
+    }
+
     const interval = this.options.clusterOptions?.nodeRecoveryInterval || 30000;
 
     logger.debug('Starting node health check', 'RabbitMQClient.startNodeHealthCheck', {
@@ -3304,17 +6979,18 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     }, interval);
     nodeHealthIntervalId.unref();
     this.intervalTimers.add(nodeHealthIntervalId);
+    this.nodeHealthCheckTimer = nodeHealthIntervalId;
   }
 
   /**
    * Recovers a failed channel by creating a new one
    *
    * @private
-   * @param {Channel | ConfirmChannel} _channel - The failed channel to recover
+   * @param {Channel | ConfirmChannel} channel - The failed channel to recover
    * @returns {Promise<Channel | ConfirmChannel | null>} Promise resolving to new channel or null
    */
   private async recoverChannel(
-    _channel: Channel | ConfirmChannel,
+    channel: Channel | ConfirmChannel,
   ): Promise<Channel | ConfirmChannel | null> {
     logger.debug('Attempting to recover channel', 'RabbitMQClient.recoverChannel');
 
@@ -3340,17 +7016,8 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       }
 
       // Setup channel event handlers
-      newChannel.on('error', async (err: Error) => {
-        logger.error('Recovered channel error', 'RabbitMQClient.recoverChannel', {
-          error: this.formatError(err),
-        });
-        this.emit('channelError', err);
-        await this.handleChannelError(newChannel, err);
-      });
-
-      newChannel.on('close', () => {
-        logger.debug('Recovered channel closed', 'RabbitMQClient.recoverChannel');
-        this.emit('channelClosed');
+      this.watchChannel(newChannel, channel === this.defaultChannel ? 'default' : 'pool', {
+        onError: (err) => this.handleChannelError(newChannel, err),
       });
 
       logger.info('Channel recovered successfully', 'RabbitMQClient.recoverChannel');
@@ -3396,6 +7063,7 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
       if (poolIndex !== -1) {
         this.channelPool.channels.push(recoveredChannel);
         logger.debug('Added recovered channel to pool', 'RabbitMQClient.handleChannelError');
+        this.serveChannelWaiters();
       } else if (this.defaultChannel === channel) {
         this.defaultChannel = recoveredChannel as ConfirmChannel;
         logger.debug(
@@ -3407,13 +7075,50 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
   }
 
   /**
-   * Checks the health of all cluster nodes
+   * Gets the health of every configured cluster node and the node the client is connected to
+   *
+   * @public
+   * @returns {ClusterStatus} Snapshot of the cluster status
+   *
+   * @example
+   * ```typescript
+   * const { connectedNode, nodes } = client.getClusterStatus();
+   * for (const node of nodes) {
+   *   console.log(node.url, node.healthy ? 'up' : `down: ${node.lastError}`);
+   * }
+   * ```
+   */
+  public getClusterStatus(): ClusterStatus {
+    const connectedNode = this.connection ? this.currentNode : null;
+
+    return {
+      connectedNode,
+      nodes: this.nodeUrls.map((url) => {
+        const status = this.activeNodes.get(url);
+        return {
+          url,
+          healthy: status?.healthy ?? true,
+          connected: url === connectedNode,
+          failureCount: status?.failureCount ?? 0,
+          lastError: status?.lastError ?? null,
+          lastChecked: status ? new Date(status.lastChecked) : null,
+          averageLatency: status?.averageLatency ?? null,
+          zone: this.nodeDescriptors.get(url)?.zone ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Checks the health of all cluster nodes using the configured probe
    *
    * @private
    * @returns {Promise<void>}
    */
   private async checkClusterNodesHealth(): Promise<void> {
-    if (!this.options.urls) {
+    await this.discoverNodes();
+
+    if (this.nodeUrls.length === 0) {
       logger.debug(
         'No URLs configured for cluster health check',
         'RabbitMQClient.checkClusterNodesHealth',
@@ -3422,39 +7127,25 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
     }
 
     logger.trace('Starting cluster nodes health check', 'RabbitMQClient.checkClusterNodesHealth', {
-      nodeCount: this.options.urls.length,
+      nodeCount: this.nodeUrls.length,
     });
 
-    for (const url of this.options.urls) {
+    for (const url of this.nodeUrls) {
       try {
-        const connectOptions: ExtendedConnectOptions = {
-          heartbeat: this.options.heartbeat,
-          vhost: this.options.vhost,
-          timeout: 5000,
-        };
-
-        const testConnection = await amqplib.connect(url, connectOptions);
-        await testConnection.close();
+        const startTime = Date.now();
+        await this.probeNode(url);
+        const latency = Date.now() - startTime;
 
-        this.activeNodes.set(url, {
-          healthy: true,
-          lastChecked: new Date(),
-          failureCount: 0,
-        });
+        const status = this.recordNodeSuccess(url, latency);
 
         logger.trace('Cluster node health check passed', 'RabbitMQClient.checkClusterNodesHealth', {
           url,
+          latency,
+          averageLatency: status.averageLatency,
+          healthy: status.healthy,
         });
       } catch (error) {
-        const status = this.activeNodes.get(url) || {
-          healthy: true,
-          lastChecked: new Date(),
-          failureCount: 0,
-        };
-        status.failureCount++;
-        status.healthy = status.failureCount < 3;
-        status.lastChecked = new Date();
-        this.activeNodes.set(url, status);
+        const status = this.recordNodeFailure(url, this.ensureError(error));
 
         logger.warn('Cluster node health check failed', 'RabbitMQClient.checkClusterNodesHealth', {
           url,
@@ -3463,6 +7154,504 @@ class RabbitMQClient extends EventEmitter implements RabbitMQClientEvents {
         });
       }
     }
+
+    for (const client of this.consumerClient ? [this, this.consumerClient] : [this]) {
+      const failBackTarget = client.findFailBackTarget();
+      if (failBackTarget) {
+        await client.failBack(failBackTarget);
+      }
+    }
+  }
+
+  /**
+   * Finds the highest-priority node that ranks above the current node and has been
+   * healthy for at least `clusterOptions.failBackDelay`
+   *
+   * @private
+   * @returns {string | null} Node to fail back to, or null if the client should stay
+   */
+  private findFailBackTarget(): string | null {
+    const clusterOptions = this.options.clusterOptions;
+    if (
+      !clusterOptions?.failBack ||
+      !this.connection ||
+      !this.currentNode ||
+      !this.isEstablished() ||
+      this.failBackInProgress
+    ) {
+      return null;
+    }
+
+    const priorityNodes = clusterOptions.priorityNodes ?? [];
+    const currentRank = priorityNodes.indexOf(this.currentNode);
+    const candidates = currentRank === -1 ? priorityNodes : priorityNodes.slice(0, currentRank);
+    const failBackDelay = clusterOptions.failBackDelay ?? CONSTANTS.DEFAULT_FAIL_BACK_DELAY;
+    const now = Date.now();
+
+    return (
+      candidates.find((url) => {
+        const status = this.activeNodes.get(url);
+        return (
+          status?.healthy &&
+          status.healthySince !== undefined &&
+          now - status.healthySince.getTime() >= failBackDelay
+        );
+      }) ?? null
+    );
+  }
+
+  /**
+   * Migrates the client to a recovered priority node without dropping messages
+   *
+   * Opens a connection and channels to the target node and switches publishing to it,
+   * then starts every consumer on a new channel before cancelling it on its old one.
+   * The old connection is closed once in-flight deliveries, borrowed channels and
+   * publisher confirms have drained, or after `clusterOptions.failBackDrainTimeout`.
+   * If anything fails before consumers are moved, the client stays on the current node.
+   *
+   * @private
+   * @param {string} url - Node to fail back to
+   * @returns {Promise<void>}
+   */
+  private async failBack(url: string): Promise<void> {
+    const previousNode = this.currentNode;
+    const previous = {
+      connection: this.connection,
+      defaultChannel: this.defaultChannel,
+      fireAndForgetChannel: this.fireAndForgetChannel,
+      channels: this.channelPool.channels,
+    };
+    let newConnection: AmqpConnection | null = null;
+    const movedConsumers: Map<string, Channel> = new Map();
+
+    this.failBackInProgress = true;
+    logger.info('Failing back to priority node', 'RabbitMQClient.failBack', {
+      from: previousNode,
+      to: url,
+      consumers: this.consumers.size,
+    });
+
+    try {
+      const connectOptions = await this.buildConnectOptions(
+        this.options.clusterOptions?.retryConnectTimeout || 5000,
+        'connection',
+        url,
+      );
+      const startTime = Date.now();
+      newConnection = (await amqplib.connect(
+        this.getConnectTarget(url),
+        connectOptions,
+      )) as unknown as AmqpConnection;
+      this.recordNodeSuccess(url, Date.now() - startTime, true);
+
+      // Open channels on the new connection while publishing continues on the current one
+      const defaultChannel = await newConnection.createConfirmChannel();
+      await this.setupDefaultChannel(defaultChannel);
+      const channels: (Channel | ConfirmChannel)[] = [];
+      for (let i = 0; i < this.channelPool.minChannels; i++) {
+        channels.push(await this.openPoolChannel(newConnection));
+      }
+
+      // Switch publishing in one step, so no publish finds the client without channels
+      this.connection = newConnection;
+      this.defaultChannel = defaultChannel;
+      this.fireAndForgetChannel = null;
+      this.channelPool.channels = channels;
+      this.setupConnectionHandlers();
+      this.setupConnectionMonitoring();
+      this.serveChannelWaiters();
+
+      // Start consumers on new channels while the old ones keep running
+      for (const [consumerTag, consumer] of this.consumers) {
+        const channel = await this.openConsumerChannel(consumer.options);
+        movedConsumers.set(consumerTag, channel);
+        await this.startConsumer(
+          channel,
+          consumer.queue,
+          consumer.onMessage,
+          consumer.options,
+          consumerTag,
+        );
+      }
+    } catch (error) {
+      logger.warn('Fail-back failed, staying on current node', 'RabbitMQClient.failBack', {
+        from: previousNode,
+        to: url,
+        error: this.formatError(error),
+      });
+
+      this.connection = previous.connection;
+      this.defaultChannel = previous.defaultChannel;
+      this.fireAndForgetChannel = previous.fireAndForgetChannel;
+      this.channelPool.channels = previous.channels;
+      this.failBackInProgress = false;
+      if (newConnection) {
+        // Closing the connection also cancels consumers already started on it
+        await newConnection.close().catch(() => {
+          /* ignore close errors */
+        });
+      }
+      this.recordNodeFailure(url, this.ensureError(error));
+      return;
+    }
+
+    this.currentNode = url;
+    this.nodeSelector.onConnected?.(url);
+    this.scheduleCredentialsRefresh();
+    logger.info('Failed back to priority node', 'RabbitMQClient.failBack', {
+      from: previousNode,
+      to: url,
+      movedConsumers: movedConsumers.size,
+    });
+    if (previousNode) {
+      this.emit('nodeSwitched', previousNode, url);
+    }
+
+    const previousConsumers: [consumerTag: string, channel: Channel | ConfirmChannel][] = [];
+    for (const [consumerTag, channel] of movedConsumers) {
+      const consumer = this.consumers.get(consumerTag);
+      if (consumer) {
+        previousConsumers.push([consumerTag, consumer.channel]);
+        consumer.channel = channel;
+      } else {
+        // Cancelled while moving
+        await channel.close().catch(() => {
+          /* ignore close errors */
+        });
+      }
+    }
+
+    try {
+      // Stop deliveries on the old channels, then let them drain
+      for (const [consumerTag, channel] of previousConsumers) {
+        await channel.cancel(consumerTag).catch((error: unknown) => {
+          logger.warn('Failed to cancel consumer on previous node', 'RabbitMQClient.failBack', {
+            consumerTag,
+            error: this.formatError(error),
+          });
+        });
+      }
+
+      const channels = [
+        ...(previous.defaultChannel ? [previous.defaultChannel] : []),
+        ...previous.channels,
+        ...previousConsumers.map(([, channel]) => channel),
+      ];
+      await this.drainChannels(
+        channels,
+        this.options.clusterOptions?.failBackDrainTimeout ??
+          CONSTANTS.DEFAULT_FAIL_BACK_DRAIN_TIMEOUT,
+      );
+      await previous.connection?.close().catch(() => {
+        /* ignore close errors */
+      });
+      logger.debug('Closed previous connection after fail-back', 'RabbitMQClient.failBack', {
+        node: previousNode,
+      });
+    } finally {
+      this.failBackInProgress = false;
+    }
+  }
+
+  /**
+   * Waits until the given channels have no deliveries being processed, are not borrowed
+   * from the pool and have no unconfirmed publishes, or until the timeout elapses
+   *
+   * @private
+   * @param {(Channel | ConfirmChannel)[]} channels - Channels to drain
+   * @param {number} timeout - Maximum time to wait in milliseconds
+   * @returns {Promise<void>}
+   */
+  private async drainChannels(
+    channels: (Channel | ConfirmChannel)[],
+    timeout: number,
+  ): Promise<void> {
+    const deadline = Date.now() + timeout;
+    const isBusy = (channel: Channel | ConfirmChannel): boolean =>
+      (this.inFlightDeliveries.get(channel) ?? 0) > 0 || this.channelPool.inUse.has(channel);
+
+    // Stop waiting early if the client is closed meanwhile
+    while (this.connection && channels.some(isBusy) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, CONSTANTS.DEFAULT_CHANNEL_CHECK_INTERVAL));
+    }
+
+    const confirms = channels.map(async (channel) => {
+      const confirmChannel = channel as Partial<ConfirmChannel>;
+      if (typeof confirmChannel.waitForConfirms === 'function') {
+        await confirmChannel.waitForConfirms().catch(() => {
+          /* nacked publishes were already reported to their callers */
+        });
+      }
+    });
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(confirms),
+      new Promise((resolve) => {
+        timeoutId = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+      }),
+    ]);
+    clearTimeout(timeoutId);
+
+    const busyChannels = channels.filter(isBusy).length;
+    if (busyChannels > 0) {
+      logger.warn('Drain timeout reached', 'RabbitMQClient.drainChannels', { busyChannels });
+    }
+    for (const channel of channels) {
+      this.channelPool.inUse.delete(channel);
+      this.inFlightDeliveries.delete(channel);
+    }
+  }
+
+  /**
+   * Records the descriptors and weights of the given nodes and returns their URLs,
+   * without duplicates
+   *
+   * @private
+   * @param {(string | NodeDescriptor)[]} nodes - Node URLs or descriptors
+   * @returns {string[]} Node URLs, in the given order
+   */
+  private registerNodes(nodes: readonly (string | NodeDescriptor)[]): string[] {
+    const urls = nodes.map((node) => {
+      if (typeof node === 'string') {
+        this.nodeDescriptors.delete(node);
+        return node;
+      }
+
+      const url = this.getNodeUrl(node);
+      this.nodeDescriptors.set(url, node);
+      if (node.weight !== undefined) {
+        // eslint-disable-next-line security/detect-object-injection
+        this.nodeWeights[url] = node.weight;
+      }
+      return url;
+    });
+
+    return [...new Set(urls)];
+  }
+
+  /**
+   * Builds the URL identifying a node descriptor, without credentials
+   *
+   * @private
+   * @param {NodeDescriptor} node - Node descriptor
+   * @returns {string} Node URL, e.g. 'amqps://rabbit-1:5671/orders'
+   */
+  private getNodeUrl(node: NodeDescriptor): string {
+    const protocol = node.protocol ?? 'amqp';
+    const hostname = node.hostname.includes(':') ? `[${node.hostname}]` : node.hostname;
+    const port = node.port ?? (protocol === 'amqps' ? 5671 : 5672);
+    const vhost = node.vhost !== undefined ? `/${encodeURIComponent(node.vhost)}` : '';
+    return `${protocol}://${hostname}:${port}${vhost}`;
+  }
+
+  /**
+   * Converts amqplib connection options given as `url` into a node descriptor
+   *
+   * @private
+   * @param {Options.Connect} options - amqplib connection options
+   * @returns {NodeDescriptor} Node descriptor
+   */
+  private toNodeDescriptor(options: Options.Connect): NodeDescriptor {
+    return {
+      protocol: options.protocol === 'amqps' ? 'amqps' : 'amqp',
+      hostname: options.hostname ?? 'localhost',
+      port: options.port,
+      username: options.username,
+      password: options.password,
+      vhost: options.vhost,
+    };
+  }
+
+  /**
+   * Refreshes the node list from `discovery`, if configured
+   *
+   * Discovered nodes replace `urls`. Status of nodes that are still present is kept, and
+   * nodes that disappeared stop being tracked, except the node the client is connected to.
+   * If discovery fails or finds no nodes, the last known node list is kept.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async discoverNodes(): Promise<void> {
+    const { discovery } = this.options;
+    if (!discovery) {
+      return;
+    }
+
+    let discovered: (string | NodeDescriptor)[];
+    try {
+      discovered = await discovery.discover();
+    } catch (error) {
+      logger.warn('Node discovery failed, keeping known nodes', 'RabbitMQClient.discoverNodes', {
+        discovery: discovery.name,
+        error: this.formatError(error),
+        knownNodes: this.nodeUrls.length,
+      });
+      return;
+    }
+
+    if (discovered.length === 0) {
+      logger.warn(
+        'Node discovery found no nodes, keeping known nodes',
+        'RabbitMQClient.discoverNodes',
+        {
+          discovery: discovery.name,
+          knownNodes: this.nodeUrls.length,
+        },
+      );
+      return;
+    }
+
+    const registered = this.registerNodes(discovered);
+    const urls = this.options.clusterOptions?.shuffleNodes ? shuffle(registered) : registered;
+    const added = urls.filter((url) => !this.activeNodes.has(url));
+    const removed = [...this.activeNodes.keys()].filter(
+      (url) => !urls.includes(url) && !(this.connection && url === this.currentNode),
+    );
+
+    removed.forEach((url) => {
+      this.activeNodes.delete(url);
+      this.nodeDescriptors.delete(url);
+    });
+    added.forEach((url) =>
+      this.activeNodes.set(url, {
+        healthy: true,
+        lastChecked: new Date(),
+        failureCount: 0,
+        successCount: 0,
+      }),
+    );
+    this.nodeUrls = urls;
+
+    if (added.length > 0 || removed.length > 0) {
+      logger.info('Cluster nodes changed', 'RabbitMQClient.discoverNodes', {
+        discovery: discovery.name,
+        added,
+        removed,
+        nodeCount: urls.length,
+      });
+    }
+  }
+
+  /**
+   * Probes a single cluster node using `clusterOptions.probe`
+   *
+   * @private
+   * @param {string} url - Node URL
+   * @returns {Promise<void>} Resolves when the node is reachable
+   * @throws {Error} If the probe fails or times out
+   */
+  private async probeNode(url: string): Promise<void> {
+    const probe = this.options.clusterOptions?.probe ?? 'amqp-header';
+    const timeout = this.options.clusterOptions?.probeTimeout ?? CONSTANTS.DEFAULT_PROBE_TIMEOUT;
+
+    if (typeof probe === 'function') {
+      await probe(url, timeout);
+      return;
+    }
+
+    switch (probe) {
+      case 'tcp':
+        await probeTcp(url, { timeout });
+        return;
+      case 'amqp-header':
+        await probeAmqpHeader(url, {
+          timeout,
+          tls: this.layerNodeTls(await this.getSslSocketOptions(), this.nodeDescriptors.get(url)),
+        });
+        return;
+      case 'connection': {
+        const connectOptions = await this.buildConnectOptions(timeout, 'healthProbe', url);
+        const testConnection = await amqplib.connect(this.getConnectTarget(url), connectOptions);
+        await testConnection.close();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Records a successful probe or connection to a cluster node, including the handshake
+   * round-trip time
+   *
+   * The average latency is an exponential moving average weighted by
+   * `clusterOptions.latencySmoothing`. An unhealthy node becomes healthy again after
+   * `clusterOptions.successThreshold` consecutive successful probes, or immediately when a
+   * client connection to it succeeds.
+   *
+   * @private
+   * @param {string} url - Node URL
+   * @param {number} latency - Handshake round-trip time in milliseconds
+   * @param {boolean} [connected=false] - Whether a client connection to the node succeeded
+   * @returns {NodeStatus} Updated node status
+   */
+  private recordNodeSuccess(url: string, latency: number, connected = false): NodeStatus {
+    const previous = this.activeNodes.get(url);
+    const smoothing =
+      this.options.clusterOptions?.latencySmoothing ?? CONSTANTS.DEFAULT_LATENCY_SMOOTHING;
+    const successThreshold =
+      this.options.clusterOptions?.successThreshold ?? CONSTANTS.DEFAULT_NODE_SUCCESS_THRESHOLD;
+    const averageLatency =
+      previous?.averageLatency === undefined
+        ? latency
+        : smoothing * latency + (1 - smoothing) * previous.averageLatency;
+    const successCount = (previous?.successCount ?? 0) + 1;
+
+    const status: NodeStatus = {
+      healthy: connected || (previous?.healthy ?? true) || successCount >= successThreshold,
+      lastChecked: new Date(),
+      failureCount: 0,
+      successCount,
+      healthySince: previous?.successCount ? previous.healthySince : new Date(),
+      lastError: previous?.lastError,
+      latency,
+      averageLatency,
+    };
+    this.activeNodes.set(url, status);
+
+    if (previous && !previous.healthy && status.healthy) {
+      logger.info('Cluster node is up', 'RabbitMQClient.recordNodeSuccess', { url });
+      this.emit('nodeUp', url);
+    }
+    return status;
+  }
+
+  /**
+   * Records a failed probe or connection attempt to a cluster node. A healthy node is
+   * marked unhealthy after `clusterOptions.failureThreshold` consecutive failures.
+   *
+   * @private
+   * @param {string} url - Node URL
+   * @param {Error} error - Probe or connection error
+   * @returns {NodeStatus} Updated node status
+   */
+  private recordNodeFailure(url: string, error: Error): NodeStatus {
+    const previous = this.activeNodes.get(url);
+    const failureThreshold =
+      this.options.clusterOptions?.failureThreshold ?? CONSTANTS.DEFAULT_NODE_FAILURE_THRESHOLD;
+    const failureCount = (previous?.failureCount ?? 0) + 1;
+
+    const wasHealthy = previous?.healthy ?? true;
+
+    const status: NodeStatus = {
+      ...previous,
+      healthy: wasHealthy && failureCount < failureThreshold,
+      lastChecked: new Date(),
+      failureCount,
+      successCount: 0,
+      healthySince: undefined,
+      lastError: error.message,
+    };
+    this.activeNodes.set(url, status);
+
+    if (wasHealthy && !status.healthy) {
+      logger.warn('Cluster node is down', 'RabbitMQClient.recordNodeFailure', {
+        url,
+        failureCount,
+        error: error.message,
+      });
+      this.emit('nodeDown', url, error);
+    }
+    return status;
   }
 
   /**
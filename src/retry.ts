@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Retry and backoff policies
+ * @module retry
+ */
+
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Information available to a retry policy when deciding the next delay
+ * @interface RetryContext
+ */
+export interface RetryContext {
+  /** Zero-based number of the retry about to happen */
+  readonly attempt: number;
+  /** Milliseconds since the first attempt of this sequence */
+  readonly elapsed: number;
+  /** Delay before the previous retry, null before the first retry */
+  readonly previousDelay: number | null;
+  /** Error of the attempt that just failed */
+  readonly error?: Error;
+}
+
+/**
+ * Decides how long to wait before retrying, or whether to give up
+ *
+ * The same policy drives the initial connection, reconnection, channel recovery and
+ * publish retries.
+ *
+ * @interface RetryPolicy
+ *
+ * @example
+ * ```typescript
+ * // Retry every second, but never beyond five minutes
+ * const policy: RetryPolicy = {
+ *   name: 'steady',
+ *   nextDelay: ({ elapsed }) => (elapsed < 300000 ? 1000 : null),
+ * };
+ * ```
+ */
+export interface RetryPolicy {
+  /** Policy name used in logs */
+  readonly name: string;
+  /**
+   * Returns the delay before the next retry
+   * @param context - State of the current retry sequence
+   * @returns Delay in milliseconds, or null to give up
+   */
+  nextDelay(context: RetryContext): number | null;
+}
+
+/**
+ * Built-in retry strategy names
+ * @typedef {'exponential' | 'full-jitter' | 'decorrelated-jitter' | 'fixed'} RetryStrategy
+ */
+export type RetryStrategy = 'exponential' | 'full-jitter' | 'decorrelated-jitter' | 'fixed';
+
+/**
+ * Options shared by the built-in retry policies
+ * @interface RetryPolicyOptions
+ */
+export interface RetryPolicyOptions {
+  /** Delay before the first retry, and the delay between retries for `fixed` (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound of a single delay in milliseconds (default: 60000) */
+  maxDelay?: number;
+  /** Give up after this many retries (default: unlimited) */
+  maxAttempts?: number;
+  /** Give up rather than retry past this many milliseconds since the first attempt (default: unlimited) */
+  maxElapsedTime?: number;
+}
+
+/**
+ * Options of {@link ExponentialBackoff}
+ * @interface ExponentialBackoffOptions
+ */
+export interface ExponentialBackoffOptions extends RetryPolicyOptions {
+  /** Growth factor between consecutive delays (default: 2) */
+  multiplier?: number;
+  /** Random spread as a fraction of the delay, e.g. 0.2 for ±20% (default: 0.2) */
+  jitter?: number;
+}
+
+const DEFAULT_INITIAL_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 60000;
+
+/**
+ * Applies the attempt and elapsed time limits shared by the built-in policies
+ */
+function withinLimits(
+  options: RetryPolicyOptions,
+  context: RetryContext,
+  delay: number,
+): number | null {
+  if (options.maxAttempts !== undefined && context.attempt >= options.maxAttempts) {
+    return null;
+  }
+  if (options.maxElapsedTime !== undefined && context.elapsed + delay > options.maxElapsedTime) {
+    return null;
+  }
+  return delay;
+}
+
+/**
+ * Doubles the delay on every retry, up to `maxDelay`, spread by a random jitter.
+ * Delays never drop below `initialDelay`.
+ */
+export class ExponentialBackoff implements RetryPolicy {
+  readonly name = 'exponential';
+
+  /**
+   * @param options - Backoff configuration
+   */
+  constructor(private readonly options: ExponentialBackoffOptions = {}) {}
+
+  nextDelay(context: RetryContext): number | null {
+    const initialDelay = this.options.initialDelay ?? DEFAULT_INITIAL_DELAY;
+    const maxDelay = this.options.maxDelay ?? DEFAULT_MAX_DELAY;
+    const jitter = this.options.jitter ?? 0.2;
+
+    const exponentialDelay = Math.min(
+      initialDelay * Math.pow(this.options.multiplier ?? 2, context.attempt),
+      maxDelay,
+    );
+    const spread = exponentialDelay * jitter * (Math.random() * 2 - 1);
+    const delay = Math.max(initialDelay, Math.min(exponentialDelay + spread, maxDelay));
+
+    return withinLimits(this.options, context, delay);
+  }
+}
+
+/**
+ * Picks a uniformly random delay between zero and the exponential delay, so that many
+ * clients retrying at once spread out evenly ("full jitter")
+ */
+export class FullJitterBackoff implements RetryPolicy {
+  readonly name = 'full-jitter';
+
+  /**
+   * @param options - Backoff configuration
+   */
+  constructor(private readonly options: RetryPolicyOptions = {}) {}
+
+  nextDelay(context: RetryContext): number | null {
+    const initialDelay = this.options.initialDelay ?? DEFAULT_INITIAL_DELAY;
+    const maxDelay = this.options.maxDelay ?? DEFAULT_MAX_DELAY;
+
+    const ceiling = Math.min(initialDelay * Math.pow(2, context.attempt), maxDelay);
+    return withinLimits(this.options, context, Math.random() * ceiling);
+  }
+}
+
+/**
+ * Picks a random delay between `initialDelay` and three times the previous delay, capped
+ * at `maxDelay` ("decorrelated jitter")
+ */
+export class DecorrelatedJitterBackoff implements RetryPolicy {
+  readonly name = 'decorrelated-jitter';
+
+  /**
+   * @param options - Backoff configuration
+   */
+  constructor(private readonly options: RetryPolicyOptions = {}) {}
+
+  nextDelay(context: RetryContext): number | null {
+    const initialDelay = this.options.initialDelay ?? DEFAULT_INITIAL_DELAY;
+    const maxDelay = this.options.maxDelay ?? DEFAULT_MAX_DELAY;
+
+    const upper = Math.max(initialDelay, (context.previousDelay ?? initialDelay) * 3);
+    const delay = Math.min(maxDelay, initialDelay + Math.random() * (upper - initialDelay));
+    return withinLimits(this.options, context, delay);
+  }
+}
+
+/**
+ * Waits `initialDelay` before every retry
+ */
+export class FixedBackoff implements RetryPolicy {
+  readonly name = 'fixed';
+
+  /**
+   * @param options - Backoff configuration
+   */
+  constructor(private readonly options: RetryPolicyOptions = {}) {}
+
+  nextDelay(context: RetryContext): number | null {
+    return withinLimits(this.options, context, this.options.initialDelay ?? DEFAULT_INITIAL_DELAY);
+  }
+}
+
+/**
+ * Creates the retry policy for a built-in strategy name
+ *
+ * @param strategy - Built-in strategy name
+ * @param options - Policy configuration
+ * @returns Retry policy instance
+ * @throws {ConfigurationError} If the strategy name is unknown
+ */
+export function createRetryPolicy(
+  strategy: RetryStrategy,
+  options: ExponentialBackoffOptions = {},
+): RetryPolicy {
+  switch (strategy) {
+    case 'exponential':
+      return new ExponentialBackoff(options);
+    case 'full-jitter':
+      return new FullJitterBackoff(options);
+    case 'decorrelated-jitter':
+      return new DecorrelatedJitterBackoff(options);
+    case 'fixed':
+      return new FixedBackoff(options);
+    default:
+      throw new ConfigurationError(`Unknown retry strategy: ${String(strategy)}`, { strategy });
+  }
+}
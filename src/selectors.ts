@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Cluster node selection strategies
+ * @module selectors
+ */
+
+import { ConfigurationError } from './errors.js';
+import type { NodeDescriptor, NodeStatus } from './rabbit.js';
+
+/**
+ * Information available to a node selector when ordering candidate nodes
+ * @interface NodeSelectionContext
+ */
+export interface NodeSelectionContext {
+  /** Health status of every known node, keyed by URL */
+  readonly nodeStatus: ReadonlyMap<string, NodeStatus>;
+  /** URL of the node the client is or was last connected to */
+  readonly lastConnectedNode: string | null;
+  /** Descriptors of nodes configured as objects, keyed by URL, e.g. to prefer a zone */
+  readonly nodeDescriptors: ReadonlyMap<string, NodeDescriptor>;
+}
+
+/**
+ * Strategy deciding the order in which cluster nodes are tried
+ *
+ * The same selector drives the initial connection and every reconnection.
+ *
+ * @interface NodeSelector
+ *
+ * @example
+ * ```typescript
+ * // Prefer nodes in the local availability zone
+ * const zoneSelector: NodeSelector = {
+ *   name: 'same-zone',
+ *   order: (nodes) => [
+ *     ...nodes.filter((url) => url.includes('eu-west-1a')),
+ *     ...nodes.filter((url) => !url.includes('eu-west-1a')),
+ *   ],
+ * };
+ * ```
+ */
+export interface NodeSelector {
+  /** Strategy name used in logs */
+  readonly name: string;
+  /**
+   * Orders candidate nodes, first to try first
+   * @param nodes - Candidate node URLs (healthy nodes, or all nodes if none are healthy)
+   * @param context - Current cluster state
+   * @returns Node URLs in the order they should be tried
+   */
+  order(nodes: readonly string[], context: NodeSelectionContext): string[];
+  /** Called after a connection to a node succeeds */
+  onConnected?(node: string): void;
+  /** Called after a connection attempt to a node fails */
+  onConnectionFailed?(node: string, error: Error): void;
+}
+
+/**
+ * Built-in failover strategy names
+ * @typedef {'round-robin' | 'random' | 'priority-first' | 'weighted' | 'sticky' | 'least-latency'} FailoverStrategy
+ */
+export type FailoverStrategy =
+  | 'round-robin'
+  | 'random'
+  | 'priority-first'
+  | 'weighted'
+  | 'sticky'
+  | 'least-latency';
+
+/**
+ * Returns a shuffled copy of the given array (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    // eslint-disable-next-line security/detect-object-injection
+    [result[i], result[j]] = [result[j] as T, result[i] as T];
+  }
+  return result;
+}
+
+/**
+ * Rotates the starting node on every selection
+ */
+export class RoundRobinSelector implements NodeSelector {
+  readonly name = 'round-robin';
+
+  private index = 0;
+
+  order(nodes: readonly string[]): string[] {
+    if (nodes.length === 0) {
+      return [];
+    }
+
+    const rotateAmount = this.index % nodes.length;
+    this.index++;
+    return [...nodes.slice(rotateAmount), ...nodes.slice(0, rotateAmount)];
+  }
+}
+
+/**
+ * Tries nodes in a uniformly random order
+ */
+export class RandomSelector implements NodeSelector {
+  readonly name = 'random';
+
+  order(nodes: readonly string[]): string[] {
+    return shuffle(nodes);
+  }
+}
+
+/**
+ * Tries priority nodes first, in the configured order, then the remaining nodes
+ */
+export class PriorityFirstSelector implements NodeSelector {
+  readonly name = 'priority-first';
+
+  /**
+   * @param priorityNodes - Preferred node URLs, most preferred first
+   */
+  constructor(private readonly priorityNodes: readonly string[]) {}
+
+  order(nodes: readonly string[]): string[] {
+    return [
+      ...this.priorityNodes.filter((node) => nodes.includes(node)),
+      ...nodes.filter((node) => !this.priorityNodes.includes(node)),
+    ];
+  }
+}
+
+/**
+ * Orders nodes randomly, with a node's chance of coming first proportional to its weight
+ */
+export class WeightedSelector implements NodeSelector {
+  readonly name = 'weighted';
+
+  /**
+   * @param weights - Relative weight per node URL; unlisted nodes default to 1
+   */
+  constructor(private readonly weights: Readonly<Record<string, number>>) {}
+
+  order(nodes: readonly string[]): string[] {
+    const remaining = nodes.map((node) => ({
+      node,
+      // eslint-disable-next-line security/detect-object-injection
+      weight: Math.max(0, this.weights[node] ?? 1),
+    }));
+    const result: string[] = [];
+
+    while (remaining.length > 0) {
+      const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+      let pick = Math.random() * total;
+      let index = remaining.findIndex((entry) => (pick -= entry.weight) < 0);
+      if (index === -1 || total === 0) {
+        index = 0;
+      }
+      const [entry] = remaining.splice(index, 1);
+      if (entry) {
+        result.push(entry.node);
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Keeps using the last connected node while it is a candidate, falling back to the
+ * remaining nodes in configured order
+ */
+export class StickySelector implements NodeSelector {
+  readonly name = 'sticky';
+
+  order(nodes: readonly string[], context: NodeSelectionContext): string[] {
+    const { lastConnectedNode } = context;
+    if (!lastConnectedNode || !nodes.includes(lastConnectedNode)) {
+      return [...nodes];
+    }
+    return [lastConnectedNode, ...nodes.filter((node) => node !== lastConnectedNode)];
+  }
+}
+
+/**
+ * Tries nodes with the lowest average handshake latency first. Nodes without latency
+ * measurements are tried last, in configured order
+ */
+export class LeastLatencySelector implements NodeSelector {
+  readonly name = 'least-latency';
+
+  order(nodes: readonly string[], context: NodeSelectionContext): string[] {
+    const latencyOf = (node: string): number =>
+      context.nodeStatus.get(node)?.averageLatency ?? Number.POSITIVE_INFINITY;
+    return [...nodes].sort((a, b) => {
+      const diff = latencyOf(a) - latencyOf(b);
+      return Number.isNaN(diff) ? 0 : diff;
+    });
+  }
+}
+
+/**
+ * Creates the node selector for a built-in strategy name
+ *
+ * @param strategy - Built-in strategy name
+ * @param options - Strategy configuration
+ * @returns Node selector instance
+ * @throws {ConfigurationError} If the strategy name is unknown
+ */
+export function createNodeSelector(
+  strategy: FailoverStrategy,
+  options: {
+    priorityNodes?: readonly string[];
+    nodeWeights?: Readonly<Record<string, number>>;
+  } = {},
+): NodeSelector {
+  switch (strategy) {
+    case 'round-robin':
+      return new RoundRobinSelector();
+    case 'random':
+      return new RandomSelector();
+    case 'priority-first':
+      return new PriorityFirstSelector(options.priorityNodes ?? []);
+    case 'weighted':
+      return new WeightedSelector(options.nodeWeights ?? {});
+    case 'sticky':
+      return new StickySelector();
+    case 'least-latency':
+      return new LeastLatencySelector();
+    default:
+      throw new ConfigurationError(`Unknown failover strategy: ${String(strategy)}`, {
+        strategy,
+      });
+  }
+}